@@ -1,12 +1,41 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import ForceGraph from './components/ForceGraph';
 import Dendrogram from './components/Dendrogram';
-import { GraphData, GraphNode, GraphLink, RawEntity, RawRelation, DataTab, GraphConfig, GroupStyleMap, GroupStyle, AnalysisMode, AnalysisMetricType, AlgorithmType, AnalysisAlgoConfig, AssociationRuleResult, DendrogramNode, NodeShape } from './types';
-import { generateCooccurrenceGraph, runAlgorithm } from './services/graphAnalysis';
-import { TableCellsIcon, TrashIcon, AdjustmentsHorizontalIcon, SwatchIcon, MagnifyingGlassIcon, ChartBarIcon, ArrowPathIcon, InboxIcon, DocumentArrowUpIcon, PauseIcon, PlayIcon, BeakerIcon, EyeSlashIcon, PencilSquareIcon, XMarkIcon, CalculatorIcon, ShareIcon, QueueListIcon, UserGroupIcon, ChartPieIcon, Square2StackIcon, CameraIcon, CpuChipIcon, DocumentTextIcon, PlusCircleIcon } from '@heroicons/react/24/outline';
+import ExtractionReviewTable from './components/ExtractionReviewTable';
+import DetailsPanel from './components/DetailsPanel';
+import ValidationReport from './components/ValidationReport';
+import AliasDictionaryEditor from './components/AliasDictionaryEditor';
+import DuplicateFinder from './components/DuplicateFinder';
+import WorkspaceSwitcher, { SaveStatus } from './components/WorkspaceSwitcher';
+import HistoryPanel from './components/HistoryPanel';
+import DataGridEditor from './components/DataGridEditor';
+import TabularImportWizard from './components/TabularImportWizard';
+import AnalysisReportBuilder, { ReportFormat } from './components/AnalysisReportBuilder';
+import NetworkStatisticsPanel from './components/NetworkStatisticsPanel';
+import CommunityPanel from './components/CommunityPanel';
+import RunLogPanel from './components/RunLogPanel';
+import { GraphData, GraphNode, GraphLink, RawEntity, RawRelation, DataTab, GraphConfig, GroupStyleMap, GroupStyle, AnalysisMode, AnalysisMetricType, AnalysisColorSource, NodeMetricKey, AlgorithmType, AnalysisAlgoConfig, AssociationRuleResult, DendrogramNode, NodeShape, ExtractionReview, ExtractionSettings, ExtractionProviderId, ChunkingOptions, OntologySchema, ValidationIssue, AliasDictionary, DuplicateCandidate, NodePositions, ProjectState, WorkspaceMeta, TabularSource, ImportPlan, ExtractionResult, ReportSectionId, PathWeighting, DistanceType, VectorBasis, CommunityMethod, CommunityNetwork, CommunityDetectionResult, AnalysisRunRecord } from './types';
+import { generateCooccurrenceGraph, runAlgorithm, calculateNetworkStatistics, attachNodeMetrics, cutDendrogram, NODE_METRIC_LABEL, PATH_WEIGHTING_LABEL } from './services/graphAnalysis';
+import { EXTRACTION_PROVIDERS, DEFAULT_EXTRACTION_SETTINGS, getExtractionProvider } from './services/extractionProviders';
+import { runChunkedExtraction, DEFAULT_CHUNKING } from './services/chunkedExtraction';
+import { createProvenance } from './services/provenance';
+import { readTabularFile, readTabularText, applyImportPlan } from './services/tabularImport';
+import { toCypherScript, toNeo4jAdminCsv, parseApocJson } from './services/neo4jInterop';
+import { buildResultTables, toCsv, downloadXlsx } from './services/analysisExport';
+import { buildAnalysisReport, toHtml, toMarkdown, toPdf } from './services/analysisReport';
+import { DEFAULT_RDF_NAMESPACE, GRAPH_FILE_EXTENSION, toGraphML, toGEXF, toTurtle, toJsonLd, parseGraphFile } from './services/graphFormats';
+import { DEFAULT_TCM_SCHEMA, validateGraph, applyValidationFixes } from './services/ontology';
+import { DEFAULT_ALIASES, applyAliases, applyAliasesToEntities, applyAliasesToRelations, spellingsOf } from './services/aliasDictionary';
+import { findDuplicateCandidates, mergeEntities } from './services/duplicateDetection';
+import { buildExtractionReview, applyExtractionReview } from './services/extractionReview';
+import { renameEntity, retypeEntities, deleteEntities, updateRelation, deleteRelations } from './services/graphEditing';
+import { History, createHistory, recordStep, canUndo, canRedo, jumpTo } from './services/history';
+import { DEFAULT_SEED, randomSeed } from './services/random';
+import { DISTANCE_LABEL, VECTOR_BASIS_LABEL } from './services/vectorDistance';
+import { createRunRecord, appendRunRecord, restoreRunParameters, hashDataset } from './services/runLog';
+import { listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, newWorkspaceId, toProjectFile, parseProjectFile, PROJECT_FILE_EXTENSION } from './services/projectStore';
+import { TableCellsIcon, TrashIcon, AdjustmentsHorizontalIcon, SwatchIcon, MagnifyingGlassIcon, SparklesIcon, ChartBarIcon, ArrowPathIcon, InboxIcon, PauseIcon, PlayIcon, BeakerIcon, EyeSlashIcon, PencilSquareIcon, XMarkIcon, CalculatorIcon, ShareIcon, QueueListIcon, UserGroupIcon, ChartPieIcon, Square2StackIcon, CameraIcon, CpuChipIcon, DocumentTextIcon, PlusCircleIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, ClockIcon, CircleStackIcon, ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
 import * as d3 from 'd3';
-import html2canvas from 'html2canvas';
-import { jsPDF } from 'jspdf';
 
 // --- DATA CONFIGURATION ---
 const INITIAL_DATA = {
@@ -63,6 +92,76 @@ const TYPE_COLOR_MAP: Record<string, string> = {
 const DEFAULT_COLORS = Object.values(TYPE_COLOR_MAP);
 const TABLEAU_COLORS = d3.schemeTableau10;
 
+// Categorical sources color by value through analysisStyles; the other node metrics are drawn as a gradient
+const CATEGORICAL_COLOR_SOURCES: AnalysisColorSource[] = ['community', 'kmeans', 'hierarchical', 'kCore', 'group', 'none'];
+const isGradientSource = (source: AnalysisColorSource): source is NodeMetricKey => !CATEGORICAL_COLOR_SOURCES.includes(source);
+
+// Community and cluster labels only exist on the graphs of those algorithms; elsewhere fall back to a source that does
+const resolveColorSource = (source: AnalysisColorSource, nodes: GraphNode[], algorithm: AlgorithmType | null): AnalysisColorSource => {
+  const has = (s: AnalysisColorSource) =>
+    s === 'community' ? nodes.some(n => n.metrics?.community !== undefined)
+    : s === 'kmeans' || s === 'hierarchical' ? nodes.some(n => n.clusters?.[s] !== undefined)
+    : true;
+  if (has(source)) return source;
+  const labelled = (['community', 'kmeans', 'hierarchical'] as const).find(has);
+  if (labelled) return labelled;
+  return algorithm === AlgorithmType.COMPLEX_NETWORK ? 'kCore' : 'group';
+};
+
+const DEFAULT_GRAPH_CONFIG: GraphConfig = {
+  chargeStrength: -300,
+  linkDistance: 100,
+  collideStrength: 35,
+  layoutMode: 'force',
+  isDirected: true,
+  linkColor: "#9ca3af",
+  enablePhysics: true
+};
+
+const DEFAULT_ALGO_CONFIG: AnalysisAlgoConfig = {
+  hierarchical: { k: 3, distanceType: 'euclidean', basis: 'cooccurrence', method: 'complete', orientation: 'horizontal', containerType: '证候', itemType: '症状', cutMode: 'k', cutDistance: 1 },
+  kmeans: { k: 3, targetType: '中药', seed: DEFAULT_SEED, distanceType: 'euclidean', basis: 'membership' },
+  community: { frontType: '症状', backType: '方剂', resolution: 1.0, method: 'leiden', network: 'bipartite', seed: DEFAULT_SEED },
+  association: { frontType: '症状', backType: '方剂', minSupport: 0.1, minConfidence: 0.5 },
+  backbone: { threshold: 0, metric: 'weight' },
+  complexNetwork: { containerType: '证候', itemType: '症状' },
+  centrality: { weighting: 'none', normalized: false }
+};
+
+// Starting point for new workspaces and fallback for fields missing from older project files
+const EMPTY_PROJECT: ProjectState = {
+  entities: [],
+  relations: [],
+  groupStyles: {},
+  analysisStyles: {},
+  graphConfig: DEFAULT_GRAPH_CONFIG,
+  algoConfig: DEFAULT_ALGO_CONFIG,
+  aliases: DEFAULT_ALIASES,
+  ontology: DEFAULT_TCM_SCHEMA,
+  positions: {},
+  rdfNamespace: DEFAULT_RDF_NAMESPACE,
+  runLog: []
+};
+
+// The part of the state covered by undo/redo
+interface GraphSnapshot {
+  entities: RawEntity[];
+  relations: RawRelation[];
+  groupStyles: GroupStyleMap;
+  hiddenNodeIds: Set<string>;
+}
+
+// Output of the last analysis run, kept with the algorithm it belongs to
+interface AnalysisResult {
+  algorithm: AlgorithmType;
+  graph: GraphData;
+  communities?: CommunityDetectionResult;
+  rules?: AssociationRuleResult[];
+}
+
+const LAST_WORKSPACE_KEY = 'tcmkg.lastWorkspace';
+const AUTOSAVE_DELAY = 800;
+
 function App() {
   // --- Data State ---
   const [entities, setEntities] = useState<RawEntity[]>([...INITIAL_DATA.entities]);
@@ -83,26 +182,60 @@ function App() {
     visible: false, x: 0, y: 0, nodeId: null
   });
 
+  // Ontology Schema & Validation
+  const [ontologySchema, setOntologySchema] = useState<OntologySchema>(DEFAULT_TCM_SCHEMA);
+  const [showValidation, setShowValidation] = useState(false);
+
+  // Alias Dictionary
+  const [aliasDictionary, setAliasDictionary] = useState<AliasDictionary>({...DEFAULT_ALIASES});
+  const [showAliasEditor, setShowAliasEditor] = useState(false);
+
+  // Duplicate Finder
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  // Edit History
+  const [history, setHistory] = useState<History<GraphSnapshot>>(createHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showNetworkStats, setShowNetworkStats] = useState(false);
+
   // Import State
-  const [entityCsv, setEntityCsv] = useState<string>("");
-  const [relationCsv, setRelationCsv] = useState<string>("");
+  const [tableText, setTableText] = useState<string>("");
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [uploadTarget, setUploadTarget] = useState<'entity' | 'relation' | null>(null);
+  const apocInputRef = useRef<HTMLInputElement>(null);
+  const graphFileInputRef = useRef<HTMLInputElement>(null);
+  const [rdfNamespace, setRdfNamespace] = useState<string>(DEFAULT_RDF_NAMESPACE);
+  const [tabularSource, setTabularSource] = useState<TabularSource | null>(null);
+
+  // Manual Entry State
+  const [showDataGrid, setShowDataGrid] = useState(false);
+  const [manualEntity, setManualEntity] = useState<RawEntity>({ type: "", name: "" });
+  const [manualRelation, setManualRelation] = useState<RawRelation>({ source: "", relation: "", target: "" });
+
+  // Text Extraction State
+  const [extractText, setExtractText] = useState<string>("");
+  const [extractDocName, setExtractDocName] = useState<string>("");
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionReview, setExtractionReview] = useState<ExtractionReview | null>(null);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>({...DEFAULT_EXTRACTION_SETTINGS});
+  const [chunking, setChunking] = useState<ChunkingOptions>({...DEFAULT_CHUNKING});
+  const [extractionProgress, setExtractionProgress] = useState<{done: number, total: number} | null>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
 
   // Graph Config
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  const [selectedLink, setSelectedLink] = useState<GraphLink | null>(null);
   const [graphKey, setGraphKey] = useState(0);
+  const [nodePositions, setNodePositions] = useState<NodePositions>({});
+
+  // Workspaces (autosaved to IndexedDB)
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [currentWorkspace, setCurrentWorkspace] = useState<{id: string, name: string} | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  // Editing is blocked while a workspace loads, since loading it replaces the whole state
+  const [loadingWorkspace, setLoadingWorkspace] = useState(true);
   
-  const [graphConfig, setGraphConfig] = useState<GraphConfig>({
-    chargeStrength: -300,
-    linkDistance: 100,
-    collideStrength: 35,
-    layoutMode: 'force',
-    isDirected: true,
-    linkColor: "#9ca3af",
-    enablePhysics: true
-  });
+  const [graphConfig, setGraphConfig] = useState<GraphConfig>({...DEFAULT_GRAPH_CONFIG});
 
   const [groupStyles, setGroupStyles] = useState<GroupStyleMap>({...INITIAL_DATA.styles});
   const [analysisStyles, setAnalysisStyles] = useState<Record<string, string>>({});
@@ -112,22 +245,21 @@ function App() {
   
   // Algo Results Storage
   const [dendrogramData, setDendrogramData] = useState<DendrogramNode | null>(null);
+  const [cophenetic, setCophenetic] = useState<number | null>(null);
+  const [hierarchicalView, setHierarchicalView] = useState<'dendrogram' | 'network'>('dendrogram');
   const [assocRules, setAssocRules] = useState<AssociationRuleResult[]>([]);
+  const [communityResult, setCommunityResult] = useState<CommunityDetectionResult | null>(null);
+  // Set only by the run buttons, so every result on screen has its entry in the run log
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [runLog, setRunLog] = useState<AnalysisRunRecord[]>([]);
   const [centralityRankings, setCentralityRankings] = useState<{degree: any[], betweenness: any[], closeness: any[]} | null>(null);
 
   // Algo Configs
-  const [algoConfig, setAlgoConfig] = useState<AnalysisAlgoConfig>({
-    hierarchical: { k: 3, distanceType: 'euclidean', method: 'complete', orientation: 'horizontal', containerType: '证候', itemType: '症状' },
-    kmeans: { k: 3, targetType: '中药' },
-    community: { frontType: '症状', backType: '方剂', resolution: 1.0 },
-    association: { frontType: '症状', backType: '方剂', minSupport: 0.1, minConfidence: 0.5 },
-    backbone: { threshold: 0, metric: 'weight' },
-    complexNetwork: { containerType: '证候', itemType: '症状' }
-  });
+  const [algoConfig, setAlgoConfig] = useState<AnalysisAlgoConfig>({...DEFAULT_ALGO_CONFIG});
   
   // Visual Mappings
   const [sizeMetric, setSizeMetric] = useState<AnalysisMetricType>('degree');
-  const [colorSource, setColorSource] = useState<'community' | 'kCore' | 'kmeans' | 'hierarchical' | 'none'>('community');
+  const [colorSource, setColorSource] = useState<AnalysisColorSource>('community');
 
   // --- Initialize Colors ---
   useEffect(() => {
@@ -144,76 +276,252 @@ function App() {
     setGroupStyles(prev => ({...initialStyles, ...prev}));
   }, []);
 
+  // --- Edit History ---
+  const restoreSnapshot = (snap: GraphSnapshot) => {
+    setEntities(snap.entities);
+    setRelations(snap.relations);
+    setGroupStyles(snap.groupStyles);
+    setHiddenNodeIds(snap.hiddenNodeIds);
+  };
+
+  // Apply a labelled edit and record it so it can be undone
+  const commitEdit = (label: string, change: Partial<GraphSnapshot>) => {
+    const before: GraphSnapshot = { entities, relations, groupStyles, hiddenNodeIds };
+    const after = { ...before, ...change };
+    restoreSnapshot(after);
+    setHistory(h => recordStep(h, label, before, after));
+  };
+
+  const handleJumpHistory = (index: number) => {
+    const next = jumpTo<GraphSnapshot>(history, index);
+    if (next.index === history.index) return;
+    restoreSnapshot(next.entries[next.index].state);
+    setHistory(next);
+  };
+  const handleUndo = () => { if (canUndo(history)) handleJumpHistory(history.index - 1); };
+  const handleRedo = () => { if (canRedo(history)) handleJumpHistory(history.index + 1); };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y); text fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || loadingWorkspace) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); handleRedo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history, loadingWorkspace]);
+
+  // --- Workspaces ---
+  const currentProject: ProjectState = useMemo(() => ({
+    entities, relations, groupStyles, analysisStyles, graphConfig, algoConfig,
+    aliases: aliasDictionary, ontology: ontologySchema, positions: nodePositions, rdfNamespace, runLog
+  }), [entities, relations, groupStyles, analysisStyles, graphConfig, algoConfig, aliasDictionary, ontologySchema, nodePositions, rdfNamespace, runLog]);
+
+  const applyProject = (project: ProjectState) => {
+    setEntities(project.entities);
+    setRelations(project.relations);
+    setGroupStyles(project.groupStyles);
+    setAnalysisStyles(project.analysisStyles);
+    setGraphConfig(project.graphConfig);
+    setAlgoConfig(project.algoConfig);
+    setAliasDictionary(project.aliases);
+    setOntologySchema(project.ontology);
+    setNodePositions(project.positions);
+    setRdfNamespace(project.rdfNamespace);
+    setRunLog(project.runLog);
+    // Session-only state belongs to the previous workspace
+    setHistory(createHistory());
+    setExtractionReview(null);
+    setSelectedNode(null);
+    setSelectedLink(null);
+    setExpandedNodeIds([]);
+    setHiddenNodeIds(new Set());
+    setDendrogramData(null);
+    setCophenetic(null);
+    setAssocRules([]);
+    setCommunityResult(null);
+    setCentralityRankings(null);
+    setAnalysisResult(null);
+    setGraphKey(prev => prev + 1);
+  };
+
+  const openWorkspace = (meta: {id: string, name: string}, project: ProjectState) => {
+    applyProject(project);
+    setCurrentWorkspace(meta);
+    localStorage.setItem(LAST_WORKSPACE_KEY, meta.id);
+  };
+
+  // Restore the last workspace, or keep the demo data as the first one
+  useEffect(() => {
+    (async () => {
+      try {
+        const list = await listWorkspaces();
+        if (list.length === 0) {
+          const meta = { id: newWorkspaceId(), name: '默认工作区' };
+          setWorkspaces([await saveWorkspace(meta, currentProject)]);
+          setCurrentWorkspace(meta);
+          localStorage.setItem(LAST_WORKSPACE_KEY, meta.id);
+          return;
+        }
+        const lastId = localStorage.getItem(LAST_WORKSPACE_KEY);
+        const target = list.find(w => w.id === lastId) || list[0];
+        const project = await loadWorkspace(target.id, EMPTY_PROJECT);
+        setWorkspaces(list);
+        if (project) openWorkspace(target, project);
+      } catch (e) {
+        console.error("Workspace restore failed", e);
+        setSaveStatus('error');
+      } finally {
+        setLoadingWorkspace(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!currentWorkspace) return;
+    setSaveStatus('saving');
+    const timer = setTimeout(async () => {
+      try {
+        const meta = await saveWorkspace(currentWorkspace, currentProject);
+        setWorkspaces(prev => [meta, ...prev.filter(w => w.id !== meta.id)]);
+        setSaveStatus('saved');
+      } catch (e) {
+        console.error("Autosave failed", e);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [currentWorkspace, currentProject]);
+
   // --- Graphs ---
   // 1. Standard Manual Graph
+  // Variant spellings are folded onto their canonical entity before building any graph
+  const resolvedData = useMemo(() => applyAliases({ entities, relations }, aliasDictionary), [entities, relations, aliasDictionary]);
+
   const standardGraphData: GraphData = useMemo(() => {
+    const { entities, relations } = resolvedData;
     const uniqueNodesMap = new Map<string, GraphNode>();
-    entities.forEach(e => { uniqueNodesMap.set(e.name, { id: e.name, group: e.type }); });
+    entities.forEach(e => { uniqueNodesMap.set(e.name, { id: e.name, group: e.type, aliases: e.aliases, properties: e.properties }); });
     relations.forEach(r => {
       if (!uniqueNodesMap.has(r.source)) uniqueNodesMap.set(r.source, { id: r.source, group: "未定义" });
       if (!uniqueNodesMap.has(r.target)) uniqueNodesMap.set(r.target, { id: r.target, group: "未定义" });
     });
     const nodes = Array.from(uniqueNodesMap.values());
     const links: GraphLink[] = relations.map(r => ({
-      source: r.source, target: r.target, type: r.relation
+      source: r.source, target: r.target, type: r.relation, provenance: r.provenance, properties: r.properties
     })).filter(l => uniqueNodesMap.has(l.source as string) && uniqueNodesMap.has(l.target as string));
-    return { nodes, links };
-  }, [entities, relations]);
+    return { nodes, links, metadata: calculateNetworkStatistics(nodes, links) };
+  }, [resolvedData]);
 
-  // 2. Analysis Graph (Dynamic based on algo)
-  const analysisGraphData: GraphData | null = useMemo(() => {
-    if (!activeAlgorithm) return null;
+  const validationIssues: ValidationIssue[] = useMemo(() => {
+    if (!showValidation) return [];
+    return validateGraph(entities, relations, ontologySchema);
+  }, [showValidation, entities, relations, ontologySchema]);
+
+  const duplicateCandidates: DuplicateCandidate[] = useMemo(() => {
+    if (!showDuplicates) return [];
+    return findDuplicateCandidates(resolvedData.entities, resolvedData.relations);
+  }, [showDuplicates, resolvedData]);
 
+  const datasetHash = useMemo(() => hashDataset(entities, relations, aliasDictionary), [entities, relations, aliasDictionary]);
+
+  // 2a. Analysis Results: computed from the current data and parameters when a run button is clicked
+  const computeAnalysisResult = (algorithm: AlgorithmType): AnalysisResult => {
     let data: GraphData = { nodes: [], links: [] };
+    let communities: CommunityDetectionResult | undefined;
+    let rules: AssociationRuleResult[] | undefined;
 
-    if (activeAlgorithm === AlgorithmType.COMPLEX_NETWORK) {
-        data = generateCooccurrenceGraph(entities, relations, algoConfig.complexNetwork.containerType, algoConfig.complexNetwork.itemType); 
+    if (algorithm === AlgorithmType.COMPLEX_NETWORK) {
+        data = generateCooccurrenceGraph(entities, relations, algoConfig.complexNetwork.containerType, algoConfig.complexNetwork.itemType, aliasDictionary); 
     } 
-    else if (activeAlgorithm === AlgorithmType.HIERARCHICAL) {
-        data = generateCooccurrenceGraph(entities, relations, algoConfig.hierarchical.containerType, algoConfig.hierarchical.itemType); 
+    else if (algorithm === AlgorithmType.HIERARCHICAL) {
+        data = generateCooccurrenceGraph(entities, relations, algoConfig.hierarchical.containerType, algoConfig.hierarchical.itemType, aliasDictionary); 
     }
-    else if (activeAlgorithm === AlgorithmType.COMMUNITY) {
-        const res = runAlgorithm('COMMUNITY', {nodes:[], links:[]}, algoConfig.community, {entities, relations}) as { nodes: GraphNode[], links: GraphLink[] };
-        data = { nodes: res.nodes, links: res.links };
+    else if (algorithm === AlgorithmType.COMMUNITY) {
+        const res = runAlgorithm('COMMUNITY', {nodes:[], links:[]}, algoConfig.community, {entities, relations, aliases: aliasDictionary}) as GraphData & { communities: CommunityDetectionResult };
+        data = { nodes: res.nodes, links: res.links, metadata: res.metadata };
+        communities = res.communities;
     }
-    else if (activeAlgorithm === AlgorithmType.ASSOCIATION) {
-        const res = runAlgorithm('ASSOCIATION', {nodes:[], links:[]}, algoConfig.association, {entities, relations}) as { nodes: GraphNode[], links: GraphLink[] };
-        data = { nodes: res.nodes, links: res.links };
+    else if (algorithm === AlgorithmType.ASSOCIATION) {
+        const res = runAlgorithm('ASSOCIATION', {nodes:[], links:[]}, algoConfig.association, {entities, relations, aliases: aliasDictionary}) as GraphData & { rules: AssociationRuleResult[] };
+        data = { nodes: res.nodes, links: res.links, metadata: res.metadata };
+        rules = res.rules;
     }
-    else if (activeAlgorithm === AlgorithmType.KMEANS) {
-        const res = runAlgorithm('KMEANS', {nodes:[], links:[]}, algoConfig.kmeans, {entities, relations}) as { nodes: GraphNode[] };
+    else if (algorithm === AlgorithmType.KMEANS) {
+        const res = runAlgorithm('KMEANS', {nodes:[], links:[]}, algoConfig.kmeans, {entities, relations, aliases: aliasDictionary}) as { nodes: GraphNode[] };
         data = { nodes: res.nodes || [], links: [] };
     }
 
-    if (activeAlgorithm === AlgorithmType.COMPLEX_NETWORK && algoConfig.backbone.threshold > 0) {
+    if (algorithm === AlgorithmType.COMPLEX_NETWORK && algoConfig.backbone.threshold > 0) {
        if(data.links.length > 0) {
          data.links = data.links.filter(l => (l.weight || 0) >= algoConfig.backbone.threshold);
+         data.metadata = calculateNetworkStatistics(data.nodes, data.links);
        }
     }
 
+    attachNodeMetrics(data, algoConfig.centrality);
+    return { algorithm: algorithm, graph: data, communities, rules };
+  };
+
+  // A result stays on screen until the next run, but only under the algorithm that produced it
+  const shownResult = analysisResult && analysisResult.algorithm === activeAlgorithm ? analysisResult : null;
+
+  // Cutting the last computed tree is cheap, so k or threshold changes apply without clustering again
+  const hierarchicalCut = useMemo(() => dendrogramData ? cutDendrogram(dendrogramData, algoConfig.hierarchical) : null, [dendrogramData, algoConfig.hierarchical]);
+
+  // Same colors as the HC{n} groups of the network view once those are styled
+  const hierarchicalColor = useCallback((cluster: number) => analysisStyles[`HC${cluster}`] || TABLEAU_COLORS[cluster % TABLEAU_COLORS.length], [analysisStyles]);
+
+  // 2b. Analysis Graph: a styled copy, so size, color and style edits never re-run the algorithm
+  const analysisGraphData: GraphData | null = useMemo(() => {
+    if (!shownResult) return null;
+
+    const data: GraphData = {
+      ...shownResult.graph,
+      nodes: shownResult.graph.nodes.map(n => ({ ...n })),
+      links: shownResult.graph.links.map(l => ({ ...l }))
+    };
+
+    if (activeAlgorithm === AlgorithmType.HIERARCHICAL && hierarchicalCut) {
+      const clusterOf = new Map<string, number>(hierarchicalCut.clusters.flatMap((members, i) => members.map(m => [m, i] as const)));
+      data.nodes.forEach(n => { if (clusterOf.has(n.id)) n.clusters = { ...n.clusters, hierarchical: clusterOf.get(n.id) }; });
+    }
+
     if (data.nodes.length > 0) {
       const metrics = data.nodes.map(n => n.metrics?.[sizeMetric] || 0);
       const minVal = Math.min(...metrics);
       const maxVal = Math.max(...metrics);
       const sizeScale = d3.scaleLinear().domain([minVal, maxVal]).range([10, 30]);
 
+      const source = resolveColorSource(colorSource, data.nodes, activeAlgorithm);
+      const gradient = isGradientSource(source)
+        ? d3.scaleSequential((t: number) => d3.interpolateYlGnBu(0.2 + 0.8 * t)).domain(d3.extent(data.nodes, n => n.metrics?.[source] || 0) as [number, number])
+        : null;
+      const ordinal = d3.scaleOrdinal(TABLEAU_COLORS);
+
       data.nodes.forEach(n => {
         const val = n.metrics?.[sizeMetric] || 0;
         n._radius = sizeMetric === 'none' ? 12 : sizeScale(val);
 
         let colorKey = "";
-        if (colorSource === 'none') {
+        if (source === 'none') {
            n._color = "#cccccc";
+        } else if (gradient) {
+           n._color = gradient(n.metrics?.[source] || 0);
         } else {
-           if (colorSource === 'community') colorKey = `C${n.metrics?.community}`;
-           else if (colorSource === 'kmeans') colorKey = `KM${n.clusters?.kmeans}`;
-           else if (activeAlgorithm === AlgorithmType.ASSOCIATION) colorKey = n.group;
-           else if (activeAlgorithm === AlgorithmType.COMPLEX_NETWORK) colorKey = `Core${n.metrics?.kCore}`;
+           if (source === 'community') colorKey = `C${n.metrics?.community}`;
+           else if (source === 'kmeans') colorKey = `KM${n.clusters?.kmeans}`;
+           else if (source === 'hierarchical') colorKey = `HC${n.clusters?.hierarchical}`;
+           else if (source === 'kCore') colorKey = `Core${n.metrics?.kCore}`;
+           else colorKey = n.group;
            
            if (analysisStyles[colorKey]) {
              n._color = analysisStyles[colorKey];
            } else {
-             const ordinal = d3.scaleOrdinal(TABLEAU_COLORS);
              n._color = ordinal(colorKey);
            }
            n.group = colorKey; 
@@ -222,29 +530,54 @@ function App() {
     }
 
     return data;
-  }, [entities, relations, activeAlgorithm, algoConfig, sizeMetric, colorSource, analysisStyles]);
+  }, [shownResult, hierarchicalCut, activeAlgorithm, sizeMetric, colorSource, analysisStyles]);
+
+  // The styled graph with each node's entity type back in `group`, which the view overwrites with its colour key
+  const analysisExportData: GraphData | null = useMemo(() => {
+    if (!analysisGraphData || !shownResult) return null;
+    const typeOf = new Map(shownResult.graph.nodes.map(n => [n.id, n.group]));
+    return { ...analysisGraphData, nodes: analysisGraphData.nodes.map(n => ({ ...n, group: typeOf.get(n.id) ?? n.group })) };
+  }, [analysisGraphData, shownResult]);
 
 
   // Handle Algorithm Execution
   const handleRunAlgorithm = () => {
-    if (!analysisGraphData && activeAlgorithm !== AlgorithmType.HIERARCHICAL) return;
+    if (!activeAlgorithm) return;
+    const result = computeAnalysisResult(activeAlgorithm);
+    const { graph } = result;
+    let summary = `${graph.nodes.length} 个节点，${graph.links.length} 条边`;
 
     if (activeAlgorithm === AlgorithmType.HIERARCHICAL) {
-        const baseData = generateCooccurrenceGraph(entities, relations, algoConfig.hierarchical.containerType, algoConfig.hierarchical.itemType); 
-        const res = runAlgorithm('HIERARCHICAL', baseData, algoConfig.hierarchical) as { tree: DendrogramNode };
+        const res = runAlgorithm('HIERARCHICAL', graph, algoConfig.hierarchical, {entities, relations, aliases: aliasDictionary}) as { tree: DendrogramNode, cophenetic: number };
         setDendrogramData(res.tree);
+        setCophenetic(Number.isFinite(res.cophenetic) ? res.cophenetic : null);
+        const cut = cutDendrogram(res.tree, algoConfig.hierarchical);
+        summary = `${graph.nodes.length} 个叶节点，在距离 ${cut.height.toFixed(3)} 处截断为 ${cut.clusters.length} 类`;
+        if (Number.isFinite(res.cophenetic)) summary += `，共表相关 ${res.cophenetic.toFixed(3)}`;
     } 
-    else if (activeAlgorithm === AlgorithmType.CENTRALITY) {
-        if (!analysisGraphData) return;
-        const ranks = runAlgorithm('CENTRALITY', analysisGraphData, {}) as {degree: any[], betweenness: any[], closeness: any[]};
+    else if (activeAlgorithm === AlgorithmType.ASSOCIATION) {
+        setAssocRules(result.rules || []);
+        summary = `${result.rules?.length || 0} 条关联规则`;
+    }
+    else if (activeAlgorithm === AlgorithmType.COMMUNITY) {
+        setCommunityResult(result.communities || null);
+        if (result.communities) summary += `，${result.communities.communities.length} 个社团，Q = ${result.communities.modularity.toFixed(4)}`;
+    }
+    else if (activeAlgorithm === AlgorithmType.KMEANS) {
+        summary = `${graph.nodes.length} 个节点，${new Set(graph.nodes.map(n => n.clusters?.kmeans)).size} 个聚类`;
+    }
+    else if (activeAlgorithm === AlgorithmType.CENTRALITY || activeAlgorithm === AlgorithmType.COMPLEX_NETWORK) {
+        const ranks = runAlgorithm('CENTRALITY', graph, { centrality: algoConfig.centrality }) as {degree: any[], betweenness: any[], closeness: any[]};
         setCentralityRankings(ranks);
     }
+    setAnalysisResult(result);
+    setRunLog(prev => appendRunRecord(prev, createRunRecord(activeAlgorithm, algoConfig, { entities, relations, aliases: aliasDictionary }, summary)));
     setGraphKey(prev => prev + 1);
   };
 
   // Sync Analysis Styles
   useEffect(() => {
-    if (analysisGraphData && colorSource !== 'none') {
+    if (analysisGraphData && !isGradientSource(resolveColorSource(colorSource, analysisGraphData.nodes, activeAlgorithm)) && colorSource !== 'none') {
         const keys = new Set(analysisGraphData.nodes.map(n => n.group));
         setAnalysisStyles(prev => {
            const next = {...prev};
@@ -258,7 +591,7 @@ function App() {
            return changed ? next : prev;
         });
     }
-  }, [analysisGraphData, colorSource]);
+  }, [analysisGraphData, colorSource, activeAlgorithm]);
 
   // --- Active Graph Logic ---
   const isShowingAnalysis = (activeTab === DataTab.ANALYSIS || (activeTab === DataTab.STYLE && lastGraphTab === DataTab.ANALYSIS)) && activeAlgorithm !== null;
@@ -353,104 +686,391 @@ function App() {
       }
   };
 
-  const handleExportPDF = async () => {
-    const element = document.getElementById('analysis-dashboard');
-    if (!element) return;
+  // Report: re-runs the selected analyses on the full data with the current parameters
+  const handleGenerateReport = async (sections: ReportSectionId[], format: ReportFormat) => {
+    const name = currentWorkspace?.name || '知识图谱';
     try {
-      const canvas = await html2canvas(element, { scale: 2, useCORS: true });
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = (canvas.height * pdfWidth) / canvas.width;
-      pdf.addImage(imgData, 'PNG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save('analysis_report.pdf');
+      const report = buildAnalysisReport({ title: `${name} 分析报告`, entities, relations, aliases: aliasDictionary, config: algoConfig }, sections);
+      if (format === 'pdf') (await toPdf(report)).save(`${name}_分析报告.pdf`);
+      else if (format === 'html') downloadText(`${name}_分析报告.html`, toHtml(report), 'text/html');
+      else downloadText(`${name}_分析报告.md`, toMarkdown(report), 'text/markdown');
     } catch (e) {
-      console.error("PDF Export failed", e);
-      alert("导出失败，请检查浏览器控制台");
+      console.error("Report generation failed", e);
+      alert("报告生成失败，请检查浏览器控制台");
     }
   };
 
-  // Import File Handling
-  const triggerFileUpload = (target: 'entity' | 'relation') => {
-      setUploadTarget(target);
-      fileInputRef.current?.click();
-  };
-
-  const handleFileRead = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Table Import: read file or pasted text -> map columns -> review row issues -> commit
+  const handleFileRead = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
+      if (fileInputRef.current) fileInputRef.current.value = ''; // reset
       if (!file) return;
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-          const text = evt.target?.result as string;
-          if (uploadTarget === 'entity') setEntityCsv(text);
-          if (uploadTarget === 'relation') setRelationCsv(text);
-          setUploadTarget(null);
-          if(fileInputRef.current) fileInputRef.current.value = ''; // reset
-      };
-      reader.readAsText(file);
-  };
-
-  const handleBatchImport = () => {
-    let addedE = 0;
-    let addedR = 0;
-
-    // Process Entities
-    if (entityCsv.trim()) {
-        const lines = entityCsv.trim().split('\n');
-        const newEntities: RawEntity[] = [];
-        // Skip header i=1
-        for(let i=1; i<lines.length; i++) {
-          const line = lines[i].trim();
-          if(!line) continue;
-          const parts = line.split(/[,，]/);
-          if (parts.length >= 2) newEntities.push({ type: parts[0].trim(), name: parts[1].trim() });
-        }
-        if (newEntities.length > 0) {
-            setEntities(prev => [...prev, ...newEntities]);
-            addedE = newEntities.length;
-        }
+      try {
+          openTabularSource(await readTabularFile(file));
+      } catch (err) {
+          alert(`读取失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
+  };
+
+  const openTabularSource = (source: TabularSource) => {
+      if (source.sheets.every(s => s.rows.length === 0)) {
+          alert("未发现有效数据 (文件为空)");
+          return;
+      }
+      setTabularSource(source);
+  };
+
+  const handleApplyTabularImport = (plan: ImportPlan) => {
+      const next = applyImportPlan(entities, relations, plan, aliasDictionary);
+      const change: Partial<GraphSnapshot> = {};
+      if (plan.entities.length > 0 || plan.retyped.length > 0) change.entities = next.entities;
+      if (plan.relations.length > 0) change.relations = next.relations;
+      commitEdit(`表格导入 (${plan.entities.length} 实体, ${plan.relations.length} 关系)`, change);
+      setTabularSource(null);
+      setTableText("");
+      const notes = [`成功导入: ${plan.entities.length} 个实体, ${plan.relations.length} 条关系`];
+      if (plan.retyped.length > 0) notes.push(`更新 ${plan.retyped.length} 个实体的类型`);
+      if (plan.skippedRows > 0) notes.push(`跳过 ${plan.skippedRows} 行有错误的数据`);
+      alert(notes.join('\n'));
+  };
+
+  // Text Extraction (Selected Provider) -> Review -> Merge
+  const handleProviderChange = (provider: ExtractionProviderId) => {
+    setExtractionSettings(prev => ({ ...prev, provider, model: getExtractionProvider(provider).defaultModel }));
+  };
+
+  const handleExtractFromText = async () => {
+    if (!extractText.trim() || isExtracting) return;
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
+    setIsExtracting(true);
+    try {
+      const extracted = await runChunkedExtraction(
+        extractText, extractionSettings, { entities, signal: controller.signal, document: extractDocName.trim() || undefined, aliases: aliasDictionary }, chunking,
+        (done, total) => setExtractionProgress({ done, total })
+      );
+      const notes: string[] = [];
+      if (extracted.cancelled) notes.push(`已取消，保留已完成的 ${extracted.completedChunks}/${extracted.chunkCount} 个片段`);
+      if (extracted.failedChunks.length > 0) notes.push(`${extracted.failedChunks.length} 个片段抽取失败: ${extracted.failedChunks.map(f => `#${f.index + 1}`).join(',')}`);
+
+      const review = buildExtractionReview(extracted, entities, relations);
+      if (review.entities.length === 0 && review.relations.length === 0) {
+        alert(["未从文本中抽取到实体或关系", ...notes].join('\n'));
+        return;
+      }
+      setExtractionReview(review);
+      if (notes.length > 0) alert(notes.join('\n'));
+    } catch (e) {
+      alert(`抽取失败: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      extractionAbortRef.current = null;
+      setIsExtracting(false);
+      setExtractionProgress(null);
     }
+  };
 
-    // Process Relations
-    if (relationCsv.trim()) {
-        const lines = relationCsv.trim().split('\n');
-        const newRelations: RawRelation[] = [];
-        // Skip header i=1
-        for(let i=1; i<lines.length; i++) {
-          const line = lines[i].trim();
-          if(!line) continue;
-          const parts = line.split(/[,，]/);
-          if (parts.length >= 3) newRelations.push({ source: parts[0].trim(), relation: parts[1].trim(), target: parts[2].trim() });
-        }
-        if (newRelations.length > 0) {
-            setRelations(prev => [...prev, ...newRelations]);
-            addedR = newRelations.length;
-        }
+  const handleCancelExtraction = () => extractionAbortRef.current?.abort();
+
+  const handleApplyExtraction = () => {
+    if (!extractionReview) return;
+    const res = applyExtractionReview(extractionReview, entities, relations);
+    commitEdit(`合并抽取结果 (${res.addedEntities} 实体, ${res.addedRelations} 关系)`, { entities: res.entities, relations: res.relations });
+    setExtractionReview(null);
+    setExtractText("");
+    alert(`成功合并: ${res.addedEntities} 个实体, ${res.addedRelations} 条关系, 修改类型 ${res.retyped} 个${res.skippedRelations > 0 ? `\n跳过 ${res.skippedRelations} 条端点实体未被接受的关系` : ''}`);
+  };
+
+  // Manual Entry
+  const handleAddManualEntity = () => {
+    const type = manualEntity.type.trim(), name = manualEntity.name.trim();
+    if (!type || !name) return;
+    if (entities.some(e => e.name === name)) { alert("实体已存在"); return; }
+    commitEdit(`添加实体: ${name}`, { entities: [...entities, { type, name, provenance: createProvenance('manual') }] });
+    setManualEntity({ type, name: "" });
+  };
+
+  const handleAddManualRelation = () => {
+    const source = manualRelation.source.trim(), relation = manualRelation.relation.trim(), target = manualRelation.target.trim();
+    if (!source || !relation || !target) return;
+    commitEdit(`添加关系: ${source} —${relation}→ ${target}`, { relations: [...relations, { source, relation, target, provenance: createProvenance('manual') }] });
+    setManualRelation({ source: "", relation, target: "" });
+  };
+
+  // Data Grid Editing
+  const handleRenameEntity = (oldName: string, newName: string) => {
+    try {
+      const res = renameEntity(entities, relations, oldName, newName);
+      commitEdit(`重命名实体: ${oldName} → ${newName}`, res);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
     }
+  };
 
-    if (addedE > 0 || addedR > 0) {
-        setEntityCsv("");
-        setRelationCsv("");
-        alert(`成功导入: ${addedE} 个实体, ${addedR} 条关系`);
-    } else {
-        alert("未发现有效数据 (请确保CSV包含表头且不为空)");
+  const handleRetypeEntities = (names: Set<string>, type: string) => {
+    const label = names.size === 1 ? `修改类型: ${Array.from(names)[0]} → ${type}` : `批量修改类型: ${names.size} 个实体 → ${type}`;
+    commitEdit(label, { entities: retypeEntities(entities, names, type) });
+  };
+
+  const handleDeleteEntities = (names: Set<string>) => {
+    const label = names.size === 1 ? `删除实体: ${Array.from(names)[0]}` : `删除 ${names.size} 个实体`;
+    commitEdit(label, deleteEntities(entities, relations, names));
+  };
+
+  const handleUpdateRelation = (index: number, patch: Partial<RawRelation>) => {
+    const next = updateRelation(relations, index, patch);
+    const r = next[index];
+    commitEdit(`编辑关系: ${r.source} —${r.relation}→ ${r.target}`, { relations: next });
+  };
+
+  const handleDeleteRelations = (indices: Set<number>) => {
+    const label = indices.size === 1 ? `删除关系: ${relations[Array.from(indices)[0]].relation}` : `删除 ${indices.size} 条关系`;
+    commitEdit(label, { relations: deleteRelations(relations, indices) });
+  };
+
+  // Shift+drag in the graph; the schema suggests a relation that fits the two types
+  const handleCreateLinkFromGraph = (source: GraphNode, target: GraphNode) => {
+    const suggested = ontologySchema.relations.find(r => r.domain.includes(source.group) && r.range.includes(target.group))?.name
+      || manualRelation.relation;
+    const relation = prompt(`新建关系: ${source.id} → ${target.id}`, suggested)?.trim();
+    if (!relation) return;
+    commitEdit(`添加关系: ${source.id} —${relation}→ ${target.id}`, {
+      relations: [...relations, { source: source.id, relation, target: target.id, provenance: createProvenance('manual') }]
+    });
+  };
+
+  const handleApplyValidationFixes = (issues: ValidationIssue[]) => {
+    commitEdit(`修复校验问题 (${issues.length} 项)`, { relations: applyValidationFixes(issues, relations) });
+  };
+
+  const handleApplyAliasesToGraph = () => {
+    commitEdit('按别名词典规范化', {
+      entities: applyAliasesToEntities(entities, aliasDictionary),
+      relations: applyAliasesToRelations(relations, aliasDictionary)
+    });
+  };
+
+  // Merging works on alias-resolved data, so names match what the finder shows
+  // Candidates are alias-resolved names; the merge rewrites only the stored spellings behind them, so the
+  // dictionary keeps normalizing the rest of the data
+  const handleMergeEntities = (keep: string, drop: string) => {
+    const names = [...entities.map(e => e.name), ...relations.flatMap(r => [r.source, r.target])];
+    const keepSpellings = spellingsOf(keep, names, aliasDictionary);
+    const keepRaw = keepSpellings.includes(keep) ? keep : keepSpellings[0] ?? keep;
+    const merged = spellingsOf(drop, names, aliasDictionary)
+      .reduce((data, name) => mergeEntities(data.entities, data.relations, keepRaw, name), { entities, relations });
+    commitEdit(`合并实体: ${drop} → ${keep}`, { entities: merged.entities, relations: merged.relations });
+  };
+
+  // Every switch flushes the current workspace first so pending edits are not lost
+  const flushCurrentWorkspace = async () => {
+    if (currentWorkspace) await saveWorkspace(currentWorkspace, currentProject);
+  };
+
+  const handleSwitchWorkspace = async (id: string) => {
+    const target = workspaces.find(w => w.id === id);
+    if (!target || id === currentWorkspace?.id) return;
+    setLoadingWorkspace(true);
+    try {
+      await flushCurrentWorkspace();
+      const project = await loadWorkspace(id, EMPTY_PROJECT);
+      if (project) openWorkspace(target, project);
+    } catch (e) {
+      alert(`切换工作区失败: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setLoadingWorkspace(false);
+    }
+  };
+
+  const createWorkspace = async (name: string, project: ProjectState) => {
+    await flushCurrentWorkspace();
+    const meta = await saveWorkspace({ id: newWorkspaceId(), name }, project);
+    setWorkspaces(prev => [meta, ...prev]);
+    openWorkspace(meta, project);
+  };
+
+  const handleCreateWorkspace = async () => {
+    const name = prompt("新工作区名称", `工作区 ${workspaces.length + 1}`)?.trim();
+    if (!name) return;
+    try {
+      await createWorkspace(name, EMPTY_PROJECT);
+    } catch (e) {
+      alert(`新建工作区失败: ${e instanceof Error ? e.message : String(e)}`);
     }
   };
 
-  const resetView = () => { setExpandedNodeIds([]); setSelectedType("all"); setSelectedEntityId(""); setSearchQuery(""); setHiddenNodeIds(new Set()); };
-  const clearGraph = () => { setEntities([]); setRelations([]); };
+  const handleRenameWorkspace = () => {
+    if (!currentWorkspace) return;
+    const name = prompt("重命名工作区", currentWorkspace.name)?.trim();
+    if (!name || name === currentWorkspace.name) return;
+    setCurrentWorkspace({ ...currentWorkspace, name });
+    setWorkspaces(prev => prev.map(w => w.id === currentWorkspace.id ? { ...w, name } : w));
+  };
+
+  const handleDeleteWorkspace = async () => {
+    if (!currentWorkspace || workspaces.length < 2) return;
+    if (!confirm(`确定删除工作区「${currentWorkspace.name}」？此操作不可恢复。`)) return;
+    try {
+      const next = workspaces.find(w => w.id !== currentWorkspace.id)!;
+      const project = await loadWorkspace(next.id, EMPTY_PROJECT);
+      await deleteWorkspace(currentWorkspace.id);
+      setWorkspaces(prev => prev.filter(w => w.id !== currentWorkspace.id));
+      if (project) openWorkspace(next, project);
+    } catch (e) {
+      alert(`删除工作区失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const downloadText = (fileName: string, content: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const handleExportProject = () => {
+    const name = currentWorkspace?.name || '知识图谱';
+    downloadText(`${name}${PROJECT_FILE_EXTENSION}`, JSON.stringify(toProjectFile(name, currentProject), null, 2), 'application/json');
+  };
+
+  // Neo4j: exports use the alias-resolved graph, so each canonical entity becomes one node
+  const handleExportCypher = () => {
+    const name = currentWorkspace?.name || '知识图谱';
+    downloadText(`${name}.cypher`, toCypherScript(resolvedData.entities, resolvedData.relations), 'text/plain');
+  };
+
+  const handleExportNeo4jCsv = () => {
+    const name = currentWorkspace?.name || '知识图谱';
+    const { nodes, relationships } = toNeo4jAdminCsv(resolvedData.entities, resolvedData.relations);
+    downloadText(`${name}_nodes.csv`, nodes, 'text/csv');
+    downloadText(`${name}_relationships.csv`, relationships, 'text/csv');
+  };
+
+  // Imported subgraphs go through the same review-and-merge step as extraction results
+  const reviewImportedFile = (e: React.ChangeEvent<HTMLInputElement>, parse: (text: string, fileName: string) => ExtractionResult, failure: string) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = evt => {
+      try {
+        const imported = applyAliases(parse(evt.target?.result as string, file.name), aliasDictionary);
+        setExtractionReview(buildExtractionReview(imported, entities, relations));
+      } catch (err) {
+        alert(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImportApoc = (e: React.ChangeEvent<HTMLInputElement>) => reviewImportedFile(e, parseApocJson, '导入 Neo4j 数据失败');
+  const handleImportGraphFile = (e: React.ChangeEvent<HTMLInputElement>) => reviewImportedFile(e, parseGraphFile, '导入图文件失败');
+
+  // GraphML / GEXF carry the graph as displayed (analysis graphs keep their metrics and cluster ids);
+  // the curated graph is exported whole with its saved layout
+  const exportedGraph = (): GraphData => isShowingAnalysis && analysisExportData ? analysisExportData : {
+    nodes: standardGraphData.nodes.map(n => ({ ...n, ...nodePositions[n.id] })),
+    links: standardGraphData.links
+  };
+
+  const handleExportGraphFile = (format: 'graphml' | 'gexf') => {
+    const name = currentWorkspace?.name || '知识图谱';
+    const graph = exportedGraph();
+    const content = format === 'graphml' ? toGraphML(graph, graphConfig.isDirected) : toGEXF(graph, graphConfig.isDirected);
+    downloadText(`${name}${isShowingAnalysis ? '_分析' : ''}${GRAPH_FILE_EXTENSION[format]}`, content, 'application/xml');
+  };
+
+  // Analysis results as tables: one sheet per table in XLSX, one file per table as CSV
+  const handleExportResultTables = (format: 'xlsx' | 'csv') => {
+    if (!activeAlgorithm || !analysisExportData) return;
+    const rules = shownResult?.rules || [];
+    const tables = buildResultTables(activeAlgorithm, analysisExportData, rules, algoConfig.centrality);
+    if (tables.length === 0) { alert("当前没有可导出的分析结果"); return; }
+    const name = `${currentWorkspace?.name || '知识图谱'}_${activeAlgorithm}`;
+    if (format === 'xlsx') downloadXlsx(tables, `${name}.xlsx`);
+    else tables.forEach(t => downloadText(`${name}_${t.name}.csv`, toCsv(t), 'text/csv'));
+  };
+
+  const handleRestoreRun = (record: AnalysisRunRecord) => {
+    if (record.datasetHash !== datasetHash && !confirm("当前数据与该次运行时不同 (数据指纹不一致)，恢复参数后结果可能无法完全复现。继续吗？")) return;
+    setAlgoConfig(prev => restoreRunParameters(prev, record));
+    setActiveAlgorithm(record.algorithm);
+  };
+
+  const handleExportRunLog = () => {
+    const name = currentWorkspace?.name || '知识图谱';
+    downloadText(`${name}_运行记录.json`, JSON.stringify({ datasetHash, runs: runLog }, null, 2), 'application/json');
+  };
+
+  const handleExportRdf = (format: 'turtle' | 'jsonld') => {
+    const name = currentWorkspace?.name || '知识图谱';
+    const { entities, relations } = resolvedData;
+    const content = format === 'turtle' ? toTurtle(entities, relations, rdfNamespace) : toJsonLd(entities, relations, rdfNamespace);
+    downloadText(`${name}${GRAPH_FILE_EXTENSION[format]}`, content, format === 'turtle' ? 'text/turtle' : 'application/ld+json');
+  };
+
+  const handleImportProject = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async evt => {
+      try {
+        const { name, project } = parseProjectFile(evt.target?.result as string, EMPTY_PROJECT);
+        await createWorkspace(name, project);
+        alert(`已导入项目「${name}」: ${project.entities.length} 个实体, ${project.relations.length} 条关系`);
+      } catch (e) {
+        alert(`导入项目失败: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // Only the curated graph's layout is saved; analysis graphs are rebuilt on every run
+  const handleLayoutChange = (positions: NodePositions) => {
+    setNodePositions(prev => ({ ...prev, ...positions }));
+  };
+
+  const handleNodeClick = (node: GraphNode) => { setSelectedNode(node); setSelectedLink(null); };
+  const handleLinkClick = (link: GraphLink) => { setSelectedLink(link); setSelectedNode(null); };
+
+  const resetView = () => {
+    setExpandedNodeIds([]); setSelectedType("all"); setSelectedEntityId(""); setSearchQuery("");
+    if (hiddenNodeIds.size > 0) commitEdit('显示全部节点', { hiddenNodeIds: new Set() });
+  };
+  const clearGraph = () => commitEdit('清空图谱', { entities: [], relations: [] });
+  const hideNode = (id: string) => commitEdit(`隐藏节点: ${id}`, { hiddenNodeIds: new Set<string>(hiddenNodeIds).add(id) });
   const handleNodeContextMenu = (event: MouseEvent, node: GraphNode) => { setContextMenu({ visible: true, x: event.pageX, y: event.pageY, nodeId: node.id }); };
 
   return (
     <div className="flex h-screen w-full bg-gray-50 text-gray-800 font-sans flex-col overflow-hidden">
       {/* Hidden File Input */}
-      <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.txt" onChange={handleFileRead} />
+      <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.tsv,.txt,.xlsx,.xls" onChange={handleFileRead} />
+      <input type="file" ref={apocInputRef} className="hidden" accept=".json,.jsonl" onChange={handleImportApoc} />
+      <input type="file" ref={graphFileInputRef} className="hidden" accept=".graphml,.gexf,.jsonld,.xml,.json" onChange={handleImportGraphFile} />
+
+      {loadingWorkspace && (
+        <div className="fixed inset-0 z-50 bg-white/70 flex items-center justify-center text-gray-600 text-sm gap-2">
+          <ArrowPathIcon className="w-5 h-5 animate-spin"/> 正在加载工作区...
+        </div>
+      )}
 
       {/* Top Nav */}
       <div className="bg-white border-b border-gray-200 p-2 px-4 shadow-sm flex items-center justify-between h-14 shrink-0 z-20">
-         <h1 className="text-lg font-bold text-emerald-800 flex items-center gap-2">
-            <BeakerIcon className="w-6 h-6"/> 湖中医知识图谱DEMO
-         </h1>
+         <div className="flex items-center gap-4">
+            <h1 className="text-lg font-bold text-emerald-800 flex items-center gap-2">
+               <BeakerIcon className="w-6 h-6"/> 湖中医知识图谱DEMO
+            </h1>
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              currentId={currentWorkspace?.id || null}
+              saveStatus={saveStatus}
+              onSwitch={handleSwitchWorkspace}
+              onCreate={handleCreateWorkspace}
+              onRename={handleRenameWorkspace}
+              onDelete={handleDeleteWorkspace}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+            />
+         </div>
          <div className="flex items-center gap-2">
             {/* Filter 1: Type */}
             <select className="text-sm border rounded p-1" value={selectedType} onChange={e => { setSelectedType(e.target.value); setSelectedEntityId(""); setExpandedNodeIds([]); }} disabled={isShowingAnalysis}>
@@ -464,6 +1084,9 @@ function App() {
                {availableEntities.map(e => <option key={e} value={e}>{e}</option>)}
             </select>
 
+            <button onClick={handleUndo} disabled={!canUndo(history)} className="disabled:opacity-30" title="撤销 (Ctrl+Z)"><ArrowUturnLeftIcon className="w-5 h-5 text-gray-500"/></button>
+            <button onClick={handleRedo} disabled={!canRedo(history)} className="disabled:opacity-30" title="重做 (Ctrl+Shift+Z)"><ArrowUturnRightIcon className="w-5 h-5 text-gray-500"/></button>
+            <button onClick={() => setShowHistory(v => !v)} title="操作历史"><ClockIcon className={`w-5 h-5 ${showHistory ? 'text-emerald-600' : 'text-gray-500'}`}/></button>
             <button onClick={resetView} title="重置视图"><ArrowPathIcon className="w-5 h-5 text-gray-500"/></button>
          </div>
       </div>
@@ -491,7 +1114,7 @@ function App() {
                               <input className="border rounded px-2 py-1 w-full text-xs" value={searchQuery} onChange={e => setSearchQuery(e.target.value)} placeholder="输入名称..." />
                               <button onClick={() => {
                                   if(!searchQuery) return;
-                                  const found = standardGraphData.nodes.filter(n => n.id.includes(searchQuery));
+                                  const found = standardGraphData.nodes.filter(n => n.id.includes(searchQuery) || n.aliases?.some(a => a.includes(searchQuery)));
                                   if(found.length) {
                                       setExpandedNodeIds(found.map(n=>n.id));
                                       setSelectedType('all');
@@ -500,47 +1123,124 @@ function App() {
                               }} className="bg-emerald-500 text-white px-2 rounded hover:bg-emerald-600"><MagnifyingGlassIcon className="w-4 h-4"/></button>
                           </div>
                       </div>
-                      <div className="text-xs space-y-2 mt-4 pt-4 border-t">
+                      <div className="text-xs space-y-2 pt-4 border-t">
+                          <h3 className="font-bold text-gray-500 flex items-center gap-1"><PencilSquareIcon className="w-4 h-4"/> 手动录入</h3>
+                          <div className="flex gap-1">
+                              <input className="border rounded px-1 py-1 w-16" list="entity-type-options" value={manualEntity.type} onChange={e => setManualEntity(p => ({...p, type: e.target.value}))} placeholder="类型" />
+                              <input className="border rounded px-1 py-1 flex-1 min-w-0" value={manualEntity.name} onChange={e => setManualEntity(p => ({...p, name: e.target.value}))} placeholder="实体名称" />
+                              <button onClick={handleAddManualEntity} className="text-emerald-600 hover:text-emerald-800" title="添加实体"><PlusCircleIcon className="w-5 h-5"/></button>
+                          </div>
+                          <div className="flex gap-1">
+                              <input className="border rounded px-1 py-1 flex-1 min-w-0" list="entity-name-options" value={manualRelation.source} onChange={e => setManualRelation(p => ({...p, source: e.target.value}))} placeholder="源" />
+                              <input className="border rounded px-1 py-1 w-12" value={manualRelation.relation} onChange={e => setManualRelation(p => ({...p, relation: e.target.value}))} placeholder="关系" />
+                              <input className="border rounded px-1 py-1 flex-1 min-w-0" list="entity-name-options" value={manualRelation.target} onChange={e => setManualRelation(p => ({...p, target: e.target.value}))} placeholder="目标" />
+                              <button onClick={handleAddManualRelation} className="text-emerald-600 hover:text-emerald-800" title="添加关系"><PlusCircleIcon className="w-5 h-5"/></button>
+                          </div>
+                          <datalist id="entity-type-options">{availableTypes.filter(t=>t!=='all').map(t => <option key={t} value={t}/>)}</datalist>
+                          <datalist id="entity-name-options">{entities.map(e => <option key={e.name} value={e.name}/>)}</datalist>
+                      </div>
+                      <div className="text-xs space-y-2 pt-4 border-t">
                           <h3 className="font-bold text-gray-500">图谱统计</h3>
                           <div className="flex justify-between"><span>节点总数:</span> <span>{standardGraphData.nodes.length}</span></div>
                           <div className="flex justify-between"><span>关系总数:</span> <span>{standardGraphData.links.length}</span></div>
+                          <button onClick={() => setShowDataGrid(v => !v)} className={`w-full py-1.5 rounded border text-xs font-bold flex items-center justify-center gap-1 ${showDataGrid ? 'bg-emerald-600 text-white border-emerald-600' : 'text-emerald-700 border-emerald-200 hover:bg-emerald-50'}`}>
+                              <TableCellsIcon className="w-4 h-4"/> {showDataGrid ? '关闭数据编辑' : '数据编辑'}
+                          </button>
+                          <button onClick={() => setShowValidation(v => !v)} className={`w-full py-1.5 rounded border text-xs font-bold flex items-center justify-center gap-1 ${showValidation ? 'bg-amber-500 text-white border-amber-500' : 'text-amber-700 border-amber-200 hover:bg-amber-50'}`}>
+                              <CalculatorIcon className="w-4 h-4"/> {showValidation ? '关闭模式校验' : '模式校验'}
+                          </button>
+                          <button onClick={() => setShowDuplicates(v => !v)} className={`w-full py-1.5 rounded border text-xs font-bold flex items-center justify-center gap-1 ${showDuplicates ? 'bg-amber-500 text-white border-amber-500' : 'text-amber-700 border-amber-200 hover:bg-amber-50'}`}>
+                              <Square2StackIcon className="w-4 h-4"/> {showDuplicates ? '关闭重复检测' : '疑似重复'}
+                          </button>
                       </div>
                   </div>
               )}
 
-              {/* IMPORT SIDEBAR (Refactored: No AI, Unified Add) */}
+              {/* IMPORT SIDEBAR (Text Extraction + Unified CSV Add) */}
               {activeTab === DataTab.IMPORT && (
                   <div className="space-y-4 flex flex-col h-full">
+                       <div className="border rounded p-2 bg-purple-50 border-purple-100 space-y-2">
+                          <label className="text-xs font-bold flex items-center gap-1 text-purple-800"><SparklesIcon className="w-4 h-4"/> 从文本抽取</label>
+                          <div className="grid grid-cols-2 gap-1 text-[10px]">
+                             <select className="border rounded p-1" value={extractionSettings.provider} onChange={e => handleProviderChange(e.target.value as ExtractionProviderId)}>
+                               {EXTRACTION_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                             </select>
+                             <input className="border rounded p-1" value={extractionSettings.model} disabled={extractionSettings.provider === 'rule'} onChange={e => setExtractionSettings(p => ({...p, model: e.target.value}))} placeholder="模型名称" title="模型名称" />
+                             {extractionSettings.provider === 'openai' && (
+                               <input className="border rounded p-1 col-span-2" value={extractionSettings.baseUrl} onChange={e => setExtractionSettings(p => ({...p, baseUrl: e.target.value}))} placeholder="http://localhost:11434/v1" title="服务地址" />
+                             )}
+                             {extractionSettings.provider !== 'rule' && (
+                               <input type="password" className="border rounded p-1 col-span-2" value={extractionSettings.apiKey} onChange={e => setExtractionSettings(p => ({...p, apiKey: e.target.value}))} placeholder={extractionSettings.provider === 'gemini' ? "API Key (留空使用默认配置)" : "API Key (可选)"} />
+                             )}
+                          </div>
+                          <input className="w-full border rounded text-[10px] p-1" value={extractDocName} onChange={e => setExtractDocName(e.target.value)} placeholder="来源文献 (如: 伤寒论·辨太阳病脉证并治)" />
+                          <textarea className="w-full border rounded text-xs p-2 h-28 resize-none focus:ring-1 focus:ring-purple-500" value={extractText} onChange={e => setExtractText(e.target.value)} placeholder="粘贴病历或古籍原文..."></textarea>
+                          <div className="grid grid-cols-2 gap-1 text-[10px]">
+                             <label>分块长度<input type="number" min="100" step="100" className="w-full border rounded p-1" value={chunking.chunkSize} onChange={e => setChunking(p => ({...p, chunkSize: Number(e.target.value)}))} /></label>
+                             <label>重叠字数<input type="number" min="0" step="50" className="w-full border rounded p-1" value={chunking.overlap} onChange={e => setChunking(p => ({...p, overlap: Number(e.target.value)}))} /></label>
+                          </div>
+                          {isExtracting ? (
+                            <div className="space-y-1">
+                               <div className="flex justify-between text-[10px] text-purple-700">
+                                  <span className="flex items-center gap-1"><ArrowPathIcon className="w-3 h-3 animate-spin"/> 抽取中 {extractionProgress ? `${extractionProgress.done}/${extractionProgress.total}` : ''}</span>
+                                  <button onClick={handleCancelExtraction} className="text-red-600 hover:underline">取消</button>
+                               </div>
+                               <div className="w-full h-2 bg-purple-100 rounded overflow-hidden">
+                                  <div className="h-full bg-purple-600 transition-all" style={{ width: `${extractionProgress && extractionProgress.total > 0 ? (extractionProgress.done / extractionProgress.total) * 100 : 0}%` }}></div>
+                               </div>
+                            </div>
+                          ) : (
+                            <button onClick={handleExtractFromText} disabled={!extractText.trim()} className="w-full bg-purple-600 text-white text-xs font-bold py-2 rounded hover:bg-purple-700 disabled:opacity-50 flex items-center justify-center gap-1">
+                               <SparklesIcon className="w-4 h-4"/> 抽取候选实体与关系
+                            </button>
+                          )}
+                          {extractionReview && <div className="text-[10px] text-purple-700">候选结果已在右侧列出，请逐条审核后合并。</div>}
+                       </div>
+
                        <div className="bg-blue-50 p-3 rounded text-xs text-blue-800 border border-blue-100">
-                          支持导入CSV格式数据。点击“读取”加载本地文件内容。
-                          <br/>注：第一行将被视为表头并忽略。
+                          支持导入 CSV / TSV / Excel 表格，自动识别编码与分隔符。
+                          <br/>预览后可为各列指定字段，导入前会列出每行的问题。
+                          <br/>三元组表 (头,头类型,关系,尾,尾类型) 会自动创建缺失的实体。
                        </div>
                        
-                       <div className="flex-1 space-y-4">
-                           <div>
-                              <div className="flex justify-between items-center mb-1">
-                                  <label className="text-xs font-bold">实体 CSV (类型,名称)</label>
-                                  <button onClick={() => triggerFileUpload('entity')} className="flex items-center gap-1 text-emerald-600 text-xs hover:text-emerald-800 font-bold border px-2 py-0.5 rounded bg-white">
-                                      <DocumentTextIcon className="w-3 h-3" /> 读取文件
-                                  </button>
-                              </div>
-                              <textarea className="w-full border rounded text-xs p-2 h-32 resize-none focus:ring-1 focus:ring-emerald-500 font-mono" value={entityCsv} onChange={e => setEntityCsv(e.target.value)} placeholder="类型,名称&#10;疾病,感冒&#10;..."></textarea>
+                       <div className="flex-1 space-y-2">
+                           <div className="flex justify-between items-center">
+                               <label className="text-xs font-bold">表格数据</label>
+                               <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-emerald-600 text-xs hover:text-emerald-800 font-bold border px-2 py-0.5 rounded bg-white">
+                                   <DocumentTextIcon className="w-3 h-3" /> 读取文件
+                               </button>
                            </div>
+                           <textarea className="w-full border rounded text-xs p-2 h-40 resize-none focus:ring-1 focus:ring-emerald-500 font-mono" value={tableText} onChange={e => setTableText(e.target.value)} placeholder="类型,名称&#10;疾病,感冒&#10;&#10;或&#10;&#10;源,关系,目标&#10;感冒,包含,咳嗽"></textarea>
+                           {tabularSource && <div className="text-[10px] text-emerald-700">列映射与校验结果已在右侧列出，确认后导入。</div>}
+                       </div>
 
-                           <div>
-                              <div className="flex justify-between items-center mb-1">
-                                  <label className="text-xs font-bold">关系 CSV (源,关系,目标)</label>
-                                  <button onClick={() => triggerFileUpload('relation')} className="flex items-center gap-1 text-emerald-600 text-xs hover:text-emerald-800 font-bold border px-2 py-0.5 rounded bg-white">
-                                      <DocumentTextIcon className="w-3 h-3" /> 读取文件
-                                  </button>
-                              </div>
-                              <textarea className="w-full border rounded text-xs p-2 h-32 resize-none focus:ring-1 focus:ring-emerald-500 font-mono" value={relationCsv} onChange={e => setRelationCsv(e.target.value)} placeholder="源,关系,目标&#10;感冒,包含,咳嗽&#10;..."></textarea>
-                           </div>
+                       <div className="border rounded p-2 bg-gray-50 space-y-2">
+                          <label className="text-xs font-bold flex items-center gap-1 text-gray-700"><CircleStackIcon className="w-4 h-4"/> Neo4j 互通</label>
+                          <div className="grid grid-cols-2 gap-1 text-[10px]">
+                             <button onClick={handleExportCypher} className="border rounded py-1 bg-white hover:bg-gray-100 flex items-center justify-center gap-1" title="MERGE 语句，可在 Neo4j Browser 或 cypher-shell 中执行"><ArrowDownTrayIcon className="w-3 h-3"/> Cypher 脚本</button>
+                             <button onClick={handleExportNeo4jCsv} className="border rounded py-1 bg-white hover:bg-gray-100 flex items-center justify-center gap-1" title="neo4j-admin database import 使用的节点/关系 CSV"><ArrowDownTrayIcon className="w-3 h-3"/> 导入用 CSV</button>
+                             <button onClick={() => apocInputRef.current?.click()} className="col-span-2 border rounded py-1 bg-white hover:bg-gray-100 flex items-center justify-center gap-1" title="apoc.export.json 导出的 JSON / JSON Lines 文件"><ArrowUpTrayIcon className="w-3 h-3"/> 导入 APOC JSON (审核后合并)</button>
+                          </div>
+                       </div>
+
+                       <div className="border rounded p-2 bg-gray-50 space-y-2">
+                          <label className="text-xs font-bold flex items-center gap-1 text-gray-700"><ShareIcon className="w-4 h-4"/> 标准图格式</label>
+                          <div className="grid grid-cols-4 gap-1 text-[10px]">
+                             <button onClick={() => handleExportGraphFile('graphml')} className="border rounded py-1 bg-white hover:bg-gray-100" title="Gephi / Cytoscape">GraphML</button>
+                             <button onClick={() => handleExportGraphFile('gexf')} className="border rounded py-1 bg-white hover:bg-gray-100" title="Gephi">GEXF</button>
+                             <button onClick={() => handleExportRdf('turtle')} className="border rounded py-1 bg-white hover:bg-gray-100" title="RDF Turtle">Turtle</button>
+                             <button onClick={() => handleExportRdf('jsonld')} className="border rounded py-1 bg-white hover:bg-gray-100" title="JSON-LD">JSON-LD</button>
+                          </div>
+                          <input className="w-full border rounded text-[10px] p-1 font-mono" value={rdfNamespace} onChange={e => setRdfNamespace(e.target.value)} placeholder={DEFAULT_RDF_NAMESPACE} title="RDF 命名空间 (实体 IRI 为 命名空间 + entity/名称)" />
+                          <button onClick={() => graphFileInputRef.current?.click()} className="w-full border rounded py-1 text-[10px] bg-white hover:bg-gray-100 flex items-center justify-center gap-1" title="GraphML / GEXF / JSON-LD"><ArrowUpTrayIcon className="w-3 h-3"/> 导入图文件 (审核后合并)</button>
                        </div>
 
                        <div className="mt-auto pt-4 space-y-2">
-                           <button onClick={handleBatchImport} className="w-full bg-emerald-600 text-white font-bold py-3 rounded flex items-center justify-center gap-2 hover:bg-emerald-700 transition shadow">
-                              <PlusCircleIcon className="w-5 h-5"/> 添加数据
+                           <button onClick={() => setShowAliasEditor(v => !v)} className={`w-full text-xs py-2 rounded border font-bold transition ${showAliasEditor ? 'bg-blue-600 text-white border-blue-600' : 'text-blue-700 border-blue-200 hover:bg-blue-50'}`}>
+                              别名词典 ({Object.keys(aliasDictionary).length})
+                           </button>
+                           <button onClick={() => openTabularSource(readTabularText(tableText))} disabled={!tableText.trim()} className="w-full bg-emerald-600 text-white font-bold py-3 rounded flex items-center justify-center gap-2 hover:bg-emerald-700 transition shadow disabled:opacity-50">
+                              <PlusCircleIcon className="w-5 h-5"/> 预览并导入
                            </button>
                            <button onClick={clearGraph} className="w-full border border-red-200 text-red-600 text-xs py-2 rounded hover:bg-red-50 flex items-center justify-center gap-1 transition">
                               <TrashIcon className="w-4 h-4"/> 清空图谱
@@ -595,10 +1295,8 @@ function App() {
                                         value={isShowingAnalysis ? 'circle' : (groupStyles[type]?.shape || 'circle')}
                                         disabled={isShowingAnalysis}
                                         onChange={e => {
-                                            const newStyles = {...groupStyles};
-                                            if(!newStyles[type]) newStyles[type] = { shape: 'circle', color: '#ccc' };
-                                            newStyles[type].shape = e.target.value as NodeShape;
-                                            setGroupStyles(newStyles);
+                                            const prev = groupStyles[type] || { shape: 'circle', color: '#ccc' };
+                                            commitEdit(`修改样式: ${type}`, { groupStyles: {...groupStyles, [type]: {...prev, shape: e.target.value as NodeShape}} });
                                         }}
                                       >
                                           <option value="circle">圆</option>
@@ -616,10 +1314,8 @@ function App() {
                                               if (isShowingAnalysis) {
                                                   setAnalysisStyles(prev => ({...prev, [type]: val}));
                                               } else {
-                                                  const newStyles = {...groupStyles};
-                                                  if(!newStyles[type]) newStyles[type] = { shape: 'circle', color: val };
-                                                  else newStyles[type].color = val;
-                                                  setGroupStyles(newStyles);
+                                                  const prev = groupStyles[type] || { shape: 'circle', color: val };
+                                                  commitEdit(`修改样式: ${type}`, { groupStyles: {...groupStyles, [type]: {...prev, color: val}} });
                                               }
                                           }}
                                       />
@@ -633,9 +1329,18 @@ function App() {
               {/* ANALYSIS SIDEBAR */}
               {activeTab === DataTab.ANALYSIS && (
                  <div className="space-y-4">
-                    <button onClick={handleExportPDF} className="w-full py-2 bg-emerald-100 text-emerald-800 text-xs font-bold rounded mb-4 flex items-center justify-center gap-2 hover:bg-emerald-200">
-                      <DocumentArrowUpIcon className="w-4 h-4"/> 生成 PDF 报告
+                    <AnalysisReportBuilder onGenerate={handleGenerateReport} />
+                    <button onClick={() => setShowNetworkStats(v => !v)} className={`w-full py-1.5 -mt-2 mb-4 text-xs rounded border flex items-center justify-center gap-1 ${showNetworkStats ? 'bg-emerald-600 text-white border-emerald-600' : 'hover:bg-gray-50'}`}>
+                      <ChartBarIcon className="w-4 h-4"/> 网络统计
                     </button>
+                    {analysisGraphData && analysisGraphData.nodes.length > 0 && (
+                      <div className="grid grid-cols-2 gap-2 -mt-2 mb-4 text-xs">
+                        <button onClick={() => handleExportGraphFile('graphml')} className="border rounded py-1 hover:bg-gray-50 flex items-center justify-center gap-1" title="含节点指标与聚类结果，可在 Gephi / Cytoscape 中打开"><ArrowDownTrayIcon className="w-3 h-3"/> GraphML</button>
+                        <button onClick={() => handleExportGraphFile('gexf')} className="border rounded py-1 hover:bg-gray-50 flex items-center justify-center gap-1" title="含节点指标、颜色与布局，可在 Gephi 中打开"><ArrowDownTrayIcon className="w-3 h-3"/> GEXF</button>
+                        <button onClick={() => handleExportResultTables('xlsx')} className="border rounded py-1 hover:bg-gray-50 flex items-center justify-center gap-1" title="关联规则、全部节点指标、聚类成员与共现边表，每类一个工作表"><TableCellsIcon className="w-3 h-3"/> 结果表 XLSX</button>
+                        <button onClick={() => handleExportResultTables('csv')} className="border rounded py-1 hover:bg-gray-50 flex items-center justify-center gap-1" title="每张结果表一个 CSV 文件"><TableCellsIcon className="w-3 h-3"/> 结果表 CSV</button>
+                      </div>
+                    )}
                     
                     <div className="space-y-1">
                       {[
@@ -675,39 +1380,77 @@ function App() {
                                </div>
                              </div>
 
+                             <label className="block font-bold">特征向量</label>
+                             <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.basis} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, basis: e.target.value as VectorBasis}}))}>
+                               {(Object.keys(VECTOR_BASIS_LABEL) as VectorBasis[]).map(b => <option key={b} value={b}>{VECTOR_BASIS_LABEL[b]}</option>)}
+                             </select>
                              <label className="block font-bold">距离类型</label>
-                             <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.distanceType} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, distanceType: e.target.value as any}}))}>
-                               <option value="euclidean">欧氏距离</option>
-                               <option value="chebyshev">切比雪夫距离</option>
-                               <option value="manhattan">绝对值距离</option>
-                               <option value="lance">Lance 距离</option>
+                             <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.distanceType} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, distanceType: e.target.value as DistanceType}}))}>
+                               {(Object.keys(DISTANCE_LABEL) as DistanceType[]).map(d => <option key={d} value={d}>{DISTANCE_LABEL[d]}</option>)}
                              </select>
                              <label className="block font-bold">聚类方法</label>
                              <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.method} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, method: e.target.value as any}}))}>
+                               <option value="single">最短距离法</option>
                                <option value="complete">最长距离法</option>
                                <option value="average">类平均法</option>
                                <option value="centroid">重心法</option>
+                               <option value="median">中间距离法</option>
+                               <option value="ward">Ward 离差平方和法</option>
                              </select>
                              <label className="block font-bold">显示方向</label>
                              <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.orientation} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, orientation: e.target.value as any}}))}>
                                <option value="horizontal">横向</option>
                                <option value="vertical">竖向</option>
                              </select>
-                             <button onClick={handleRunAlgorithm} className="w-full bg-emerald-600 text-white py-1 rounded hover:bg-emerald-700">聚类分析</button>
+                             <label className="block font-bold">截断方式</label>
+                             <div className="grid grid-cols-2 gap-2">
+                               <select className="w-full border p-1 rounded" value={algoConfig.hierarchical.cutMode} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, cutMode: e.target.value as 'k' | 'distance'}}))}>
+                                 <option value="k">聚类数 k</option>
+                                 <option value="distance">合并距离</option>
+                               </select>
+                               {algoConfig.hierarchical.cutMode === 'k' ? (
+                                 <input type="number" min="1" className="w-full border p-1 rounded" value={algoConfig.hierarchical.k} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, k: Math.max(1, Math.round(Number(e.target.value)))}}))}/>
+                               ) : (
+                                 <input type="number" min="0" step="0.1" className="w-full border p-1 rounded" value={algoConfig.hierarchical.cutDistance} onChange={e=>setAlgoConfig(p=>({...p, hierarchical:{...p.hierarchical, cutDistance: Math.max(0, Number(e.target.value))}}))}/>
+                               )}
+                             </div>
+                             {hierarchicalCut && (
+                               <div className="text-[10px] text-gray-500">在距离 {hierarchicalCut.height.toFixed(3)} 处截断，得到 {hierarchicalCut.clusters.length} 类</div>
+                             )}
+                             <label className="block font-bold">结果视图</label>
+                             <select className="w-full border p-1 rounded" value={hierarchicalView} onChange={e=>setHierarchicalView(e.target.value as 'dendrogram' | 'network')}>
+                               <option value="dendrogram">树状图</option>
+                               <option value="network">共现网络 (按聚类着色)</option>
+                             </select>
+                             <button onClick={() => {setColorSource('hierarchical'); handleRunAlgorithm()}} className="w-full bg-emerald-600 text-white py-1 rounded hover:bg-emerald-700">聚类分析</button>
                           </div>
                        )}
 
                        {activeAlgorithm === AlgorithmType.KMEANS && (
                           <div className="space-y-2 text-xs">
                              <div className="text-[10px] text-gray-500 mb-2">
-                                将实体向量化并在欧氏空间中进行 K 均值聚类。
+                                将实体向量化后按所选距离进行 K 均值聚类 (簇中心取成员向量均值)。
                              </div>
                              <label className="block font-bold">实体类型 (向量化)</label>
                              <select className="w-full border p-1 rounded" value={algoConfig.kmeans.targetType} onChange={e=>setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, targetType: e.target.value}}))}>
                                {availableTypes.filter(t=>t!=='all').map(t=><option key={t} value={t}>{t}</option>)}
                              </select>
+                             <label className="block font-bold">特征向量</label>
+                             <select className="w-full border p-1 rounded" value={algoConfig.kmeans.basis} onChange={e=>setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, basis: e.target.value as VectorBasis}}))}>
+                               <option value="membership">关联矩阵 (对象 × 关联实体, 0/1)</option>
+                               <option value="cooccurrence">共现向量 (共享关联实体数)</option>
+                             </select>
+                             <label className="block font-bold">距离类型</label>
+                             <select className="w-full border p-1 rounded" value={algoConfig.kmeans.distanceType} onChange={e=>setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, distanceType: e.target.value as DistanceType}}))}>
+                               {(Object.keys(DISTANCE_LABEL) as DistanceType[]).map(d => <option key={d} value={d}>{DISTANCE_LABEL[d]}</option>)}
+                             </select>
                              <label className="block font-bold">簇数量 (K)</label>
                              <input type="number" className="w-full border p-1 rounded" value={algoConfig.kmeans.k} onChange={e=>setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, k: Number(e.target.value)}}))}/>
+                             <label className="block font-bold">随机种子</label>
+                             <div className="flex gap-1">
+                               <input type="number" className="w-full border p-1 rounded font-mono" value={algoConfig.kmeans.seed} onChange={e=>setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, seed: Math.trunc(Number(e.target.value))}}))}/>
+                               <button onClick={() => setAlgoConfig(p=>({...p, kmeans:{...p.kmeans, seed: randomSeed()}}))} className="border rounded px-2 bg-white hover:bg-gray-100" title="换一个随机种子"><ArrowPathIcon className="w-3 h-3"/></button>
+                             </div>
                              <button onClick={handleRunAlgorithm} className="w-full bg-emerald-600 text-white py-1 rounded hover:bg-emerald-700">开始聚类</button>
                           </div>
                        )}
@@ -715,7 +1458,26 @@ function App() {
                        {activeAlgorithm === AlgorithmType.COMMUNITY && (
                           <div className="space-y-2 text-xs">
                              <div className="text-[10px] text-gray-500 mb-2">
-                                在二模异质网络上进行社团检测 (Leiden 算法)。
+                                {algoConfig.community.network === 'bipartite'
+                                  ? '在二模异质网络上进行社团检测，优化 Barber 二部模块度。'
+                                  : '在后项实体的加权共现网络上进行社团检测，优化模块度。'}
+                             </div>
+                             <label className="block font-bold">网络</label>
+                             <select className="w-full border p-1 rounded" value={algoConfig.community.network} onChange={e=>setAlgoConfig(p=>({...p, community:{...p.community, network: e.target.value as CommunityNetwork}}))}>
+                               <option value="bipartite">二部网络 (前项-后项)</option>
+                               <option value="cooccurrence">共现网络 (后项在前项中共现)</option>
+                             </select>
+                             <label className="block font-bold">算法</label>
+                             <select className="w-full border p-1 rounded" value={algoConfig.community.method} onChange={e=>setAlgoConfig(p=>({...p, community:{...p.community, method: e.target.value as CommunityMethod}}))}>
+                               <option value="leiden">Leiden</option>
+                               <option value="louvain">Louvain</option>
+                             </select>
+                             <label className="block font-bold">分辨率 γ: {algoConfig.community.resolution}</label>
+                             <input type="range" min="0.1" max="3" step="0.1" className="w-full" value={algoConfig.community.resolution} onChange={e=>setAlgoConfig(p=>({...p, community:{...p.community, resolution: Number(e.target.value)}}))} />
+                             <label className="block font-bold">随机种子</label>
+                             <div className="flex gap-1">
+                               <input type="number" className="w-full border p-1 rounded font-mono" value={algoConfig.community.seed} onChange={e=>setAlgoConfig(p=>({...p, community:{...p.community, seed: Math.trunc(Number(e.target.value))}}))}/>
+                               <button onClick={() => setAlgoConfig(p=>({...p, community:{...p.community, seed: randomSeed()}}))} className="border rounded px-2 bg-white hover:bg-gray-100" title="换一个随机种子"><ArrowPathIcon className="w-3 h-3"/></button>
                              </div>
                              <label className="block font-bold">前项类型</label>
                              <select className="w-full border p-1 rounded" value={algoConfig.community.frontType} onChange={e=>setAlgoConfig(p=>({...p, community:{...p.community, frontType: e.target.value}}))}>
@@ -776,27 +1538,58 @@ function App() {
                                </div>
                              </div>
 
-                              <label className="block font-bold">中心性指标大小调整</label>
-                              <select className="w-full border p-1 rounded" value={sizeMetric} onChange={e=>setSizeMetric(e.target.value as any)}>
-                                <option value="degree">点度中心性</option>
-                                <option value="betweenness">中介中心性</option>
-                                <option value="closeness">接近中心性</option>
-                              </select>
                               <div className="pt-2">
                                  <label className="block font-bold mb-1">Backbone 过滤 (权重)</label>
                                  <input type="range" min="0" max="5" step="0.1" className="w-full" value={algoConfig.backbone.threshold} onChange={e => setAlgoConfig(p=>({...p, backbone: {...p.backbone, threshold: Number(e.target.value)}}))} />
                                  <div className="text-right text-[10px] text-gray-500">{algoConfig.backbone.threshold > 0 ? `≥ ${algoConfig.backbone.threshold}` : "无过滤"}</div>
                               </div>
-                              <button onClick={() => { setActiveAlgorithm(AlgorithmType.CENTRALITY); handleRunAlgorithm(); setActiveAlgorithm(AlgorithmType.COMPLEX_NETWORK); }} className="w-full bg-emerald-600 text-white py-1 rounded hover:bg-emerald-700">计算排名</button>
+                              <button onClick={handleRunAlgorithm} className="w-full bg-emerald-600 text-white py-1 rounded hover:bg-emerald-700">计算排名</button>
                            </div>
                        )}
                        
+                       {activeAlgorithm && (activeAlgorithm !== AlgorithmType.HIERARCHICAL || hierarchicalView === 'network') && analysisGraphData && (
+                           <div className="space-y-2 text-xs border-t pt-2">
+                              <div className="font-bold">节点映射</div>
+                              <label className="block">大小
+                                <select className="w-full border p-1 rounded" value={sizeMetric} onChange={e=>setSizeMetric(e.target.value as AnalysisMetricType)}>
+                                  {(Object.keys(NODE_METRIC_LABEL) as NodeMetricKey[]).map(k => <option key={k} value={k}>{NODE_METRIC_LABEL[k]}</option>)}
+                                  <option value="none">统一大小</option>
+                                </select>
+                              </label>
+                              <label className="block">颜色
+                                <select className="w-full border p-1 rounded" value={resolveColorSource(colorSource, analysisGraphData.nodes, activeAlgorithm)} onChange={e=>setColorSource(e.target.value as AnalysisColorSource)}>
+                                  <optgroup label="分类">
+                                    {analysisGraphData.nodes.some(n => n.metrics?.community !== undefined) && <option value="community">社团</option>}
+                                    {analysisGraphData.nodes.some(n => n.clusters?.kmeans !== undefined) && <option value="kmeans">K-Means 聚类</option>}
+                                    {analysisGraphData.nodes.some(n => n.clusters?.hierarchical !== undefined) && <option value="hierarchical">层次聚类</option>}
+                                    <option value="kCore">k-核</option>
+                                    <option value="group">实体类型</option>
+                                    <option value="none">不着色</option>
+                                  </optgroup>
+                                  <optgroup label="渐变">
+                                    {(Object.keys(NODE_METRIC_LABEL) as NodeMetricKey[]).filter(isGradientSource).map(k => <option key={k} value={k}>{NODE_METRIC_LABEL[k]}</option>)}
+                                  </optgroup>
+                                </select>
+                              </label>
+                              <label className="block">最短路径长度 (中介 / 接近中心性)
+                                <select className="w-full border p-1 rounded" value={algoConfig.centrality.weighting} onChange={e=>setAlgoConfig(p=>({...p, centrality: {...p.centrality, weighting: e.target.value as PathWeighting}}))}>
+                                  {(Object.keys(PATH_WEIGHTING_LABEL) as PathWeighting[]).map(w => <option key={w} value={w}>{PATH_WEIGHTING_LABEL[w]}</option>)}
+                                </select>
+                              </label>
+                              <label className="flex items-center gap-1">
+                                <input type="checkbox" checked={algoConfig.centrality.normalized} onChange={e=>setAlgoConfig(p=>({...p, centrality: {...p.centrality, normalized: e.target.checked}}))} /> 标准化中心性得分
+                              </label>
+                           </div>
+                       )}
+
                        {!activeAlgorithm && (
                            <div className="text-xs text-gray-400 italic text-center py-4">
                                点击上方按钮选择并配置算法
                            </div>
                        )}
                     </div>
+
+                    <RunLogPanel records={runLog} datasetHash={datasetHash} onRestore={handleRestoreRun} onExport={handleExportRunLog} onClear={() => setRunLog([])} />
                  </div>
               )}
            </div>
@@ -805,18 +1598,129 @@ function App() {
         {/* Main Content */}
         <div className="flex-1 bg-gray-50 overflow-auto relative p-4" id="analysis-dashboard">
            {/* Hierarchical View */}
-           {activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.HIERARCHICAL && dendrogramData ? (
+           {activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.HIERARCHICAL && hierarchicalView === 'dendrogram' && dendrogramData ? (
              <div className="w-full h-full bg-white p-4 shadow rounded flex flex-col">
-                <h3 className="font-bold text-gray-700 mb-2">层次聚类树状图 ({algoConfig.hierarchical.distanceType} - {algoConfig.hierarchical.method})</h3>
-                <div className="flex-1">
-                  <Dendrogram data={dendrogramData} width={800} height={500} orientation={algoConfig.hierarchical.orientation}/>
+                <h3 className="font-bold text-gray-700 mb-2">
+                  层次聚类树状图 ({algoConfig.hierarchical.distanceType} - {algoConfig.hierarchical.method})
+                  {cophenetic !== null && <span className="ml-2 font-normal text-xs text-gray-600" title="原始距离与树状图合并高度的相关系数，越接近 1 说明树状图越忠实于原始距离">共表相关系数 c = {cophenetic.toFixed(3)}</span>}
+                </h3>
+                <div className="flex-1 flex gap-4 min-h-0">
+                  <div className="flex-1 min-w-0">
+                    <Dendrogram data={dendrogramData} width={800} height={500} orientation={algoConfig.hierarchical.orientation} cut={hierarchicalCut} colorOf={hierarchicalColor}/>
+                  </div>
+                  {hierarchicalCut && (
+                    <div className="w-72 shrink-0 overflow-auto">
+                      <h4 className="font-bold text-sm mb-2">聚类成员 ({hierarchicalCut.clusters.length} 类)</h4>
+                      <table className="w-full text-xs text-left bg-white border">
+                        <thead className="bg-gray-100">
+                          <tr><th className="p-1">类别</th><th className="p-1">规模</th><th className="p-1">成员</th></tr>
+                        </thead>
+                        <tbody>
+                          {hierarchicalCut.clusters.map((members, i) => (
+                            <tr key={i} className="border-b align-top">
+                              <td className="p-1 whitespace-nowrap">
+                                <span className="inline-block w-2.5 h-2.5 rounded-full mr-1 align-middle" style={{ backgroundColor: hierarchicalColor(i) }} />
+                                HC{i}
+                              </td>
+                              <td className="p-1">{members.length}</td>
+                              <td className="p-1">{members.join('、')}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </div>
              </div>
-           ) : (activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.HIERARCHICAL && !dendrogramData) ? (
+           ) : (activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.HIERARCHICAL && hierarchicalView === 'dendrogram' && !dendrogramData) ? (
              <div className="w-full h-full flex items-center justify-center text-gray-400">请点击左侧“聚类分析”按钮</div>
+           ) : (activeTab === DataTab.ANALYSIS && activeAlgorithm && !shownResult) ? (
+             <div className="w-full h-full flex items-center justify-center text-gray-400">请点击左侧按钮运行分析</div>
            ) : (
              // Standard Graph View or Other Views
              <div className="w-full h-full relative border bg-white shadow rounded overflow-hidden flex flex-col">
+                {activeTab === DataTab.MANUAL && showDataGrid && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <DataGridEditor
+                        entities={entities}
+                        relations={relations}
+                        entityTypes={Array.from(new Set([...ontologySchema.entityTypes, ...entities.map(e => e.type)]))}
+                        relationNames={Array.from(new Set([...ontologySchema.relations.map(r => r.name), ...relations.map(r => r.relation)]))}
+                        onRenameEntity={handleRenameEntity}
+                        onRetypeEntities={handleRetypeEntities}
+                        onDeleteEntities={handleDeleteEntities}
+                        onUpdateRelation={handleUpdateRelation}
+                        onDeleteRelations={handleDeleteRelations}
+                        onClose={() => setShowDataGrid(false)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.MANUAL && showValidation && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <ValidationReport
+                        issues={validationIssues}
+                        schema={ontologySchema}
+                        onSchemaChange={setOntologySchema}
+                        onApplyFixes={handleApplyValidationFixes}
+                        onClose={() => setShowValidation(false)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.MANUAL && showDuplicates && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <DuplicateFinder
+                        candidates={duplicateCandidates}
+                        undoLabel={canUndo(history) ? history.entries[history.index].label : undefined}
+                        onMerge={handleMergeEntities}
+                        onUndo={handleUndo}
+                        onClose={() => setShowDuplicates(false)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.IMPORT && showAliasEditor && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <AliasDictionaryEditor
+                        aliases={aliasDictionary}
+                        onChange={setAliasDictionary}
+                        onApplyToGraph={handleApplyAliasesToGraph}
+                        onClose={() => setShowAliasEditor(false)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.IMPORT && tabularSource && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <TabularImportWizard
+                        source={tabularSource}
+                        entities={entities}
+                        relations={relations}
+                        schema={ontologySchema}
+                        aliases={aliasDictionary}
+                        onImport={handleApplyTabularImport}
+                        onCancel={() => setTabularSource(null)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.IMPORT && extractionReview && (
+                   <div className="h-1/2 border-b overflow-hidden p-4 bg-gray-50">
+                      <ExtractionReviewTable
+                        review={extractionReview}
+                        entities={entities}
+                        onChange={setExtractionReview}
+                        onApply={handleApplyExtraction}
+                        onDiscard={() => setExtractionReview(null)}
+                      />
+                   </div>
+                )}
+
+                {activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.COMMUNITY && communityResult && (
+                   <CommunityPanel result={communityResult} colorOf={id => analysisStyles[`C${id}`]} />
+                )}
+
                 {activeTab === DataTab.ANALYSIS && activeAlgorithm === AlgorithmType.ASSOCIATION && assocRules.length > 0 && (
                    <div className="h-1/3 border-b overflow-auto p-4 bg-gray-50">
                       <h4 className="font-bold text-sm mb-2">关联规则列表 (Top {assocRules.length})</h4>
@@ -851,15 +1755,15 @@ function App() {
                         <div className="grid grid-cols-3 gap-2 text-[10px]">
                            <div>
                               <div className="font-bold text-emerald-600">度</div>
-                              {centralityRankings.degree.map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val})</div>)}
+                              {centralityRankings.degree.slice(0, 5).map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val})</div>)}
                            </div>
                            <div>
                               <div className="font-bold text-orange-600">中介</div>
-                              {centralityRankings.betweenness.map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val.toFixed(2)})</div>)}
+                              {centralityRankings.betweenness.slice(0, 5).map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val.toFixed(2)})</div>)}
                            </div>
                            <div>
                               <div className="font-bold text-blue-600">接近</div>
-                              {centralityRankings.closeness.map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val.toFixed(2)})</div>)}
+                              {centralityRankings.closeness.slice(0, 5).map((n,i) => <div key={i}>{i+1}. {n.id} ({n.val.toFixed(2)})</div>)}
                            </div>
                         </div>
                     </div>
@@ -873,10 +1777,39 @@ function App() {
                       height={dimensions.height}
                       config={graphConfig}
                       groupStyles={groupStyles}
-                      onNodeClick={setSelectedNode}
+                      onNodeClick={handleNodeClick}
                       onNodeDoubleClick={handleNodeDoubleClick}
                       onNodeContextMenu={handleNodeContextMenu}
+                      onLinkClick={handleLinkClick}
+                      positions={isShowingAnalysis ? undefined : nodePositions}
+                      onLayoutChange={isShowingAnalysis ? undefined : handleLayoutChange}
+                      onCreateLink={isShowingAnalysis ? undefined : handleCreateLinkFromGraph}
                     />
+                    {activeTab === DataTab.ANALYSIS && showNetworkStats && (isShowingAnalysis ? analysisGraphData : standardGraphData)?.metadata && (
+                      <NetworkStatisticsPanel
+                        title={isShowingAnalysis ? '分析网络' : '知识图谱全图'}
+                        metadata={(isShowingAnalysis ? analysisGraphData : standardGraphData)!.metadata!}
+                        onClose={() => setShowNetworkStats(false)}
+                      />
+                    )}
+                    {showHistory && (
+                      <HistoryPanel
+                        entries={history.entries}
+                        index={history.index}
+                        onJump={handleJumpHistory}
+                        onUndo={handleUndo}
+                        onRedo={handleRedo}
+                        onClose={() => setShowHistory(false)}
+                      />
+                    )}
+                    {!isShowingAnalysis && (
+                      <DetailsPanel
+                        node={selectedNode}
+                        link={selectedLink}
+                        nodeProvenance={selectedNode ? resolvedData.entities.find(e => e.name === selectedNode.id)?.provenance : undefined}
+                        onClose={() => { setSelectedNode(null); setSelectedLink(null); }}
+                      />
+                    )}
                 </div>
              </div>
            )}
@@ -889,7 +1822,7 @@ function App() {
           <div className="fixed z-50 bg-white shadow-lg rounded-lg border border-gray-200 py-1 w-32 flex flex-col text-xs text-gray-700" style={{ top: contextMenu.y, left: contextMenu.x }}>
              <button className="px-3 py-2 hover:bg-gray-100 text-left" onClick={() => { 
                  if(contextMenu.nodeId) {
-                     setHiddenNodeIds(prev => { const n = new Set(prev); n.add(contextMenu.nodeId!); return n; });
+                     hideNode(contextMenu.nodeId);
                      setContextMenu(prev => ({ ...prev, visible: false }));
                  }
              }}>隐藏节点</button>
@@ -0,0 +1,108 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AliasDictionary } from '../types';
+import { parseAliasCsv, aliasDictionaryToCsv } from '../services/aliasDictionary';
+import { TrashIcon, PlusCircleIcon, DocumentTextIcon, ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface AliasDictionaryEditorProps {
+  aliases: AliasDictionary;
+  onChange: (aliases: AliasDictionary) => void;
+  onApplyToGraph: () => void;
+  onClose: () => void;
+}
+
+const AliasDictionaryEditor: React.FC<AliasDictionaryEditorProps> = ({ aliases, onChange, onApplyToGraph, onClose }) => {
+  const [variant, setVariant] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [filter, setFilter] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = useMemo(() => Object.entries<string>(aliases)
+    .filter(([a, c]) => !filter || a.includes(filter) || c.includes(filter))
+    .sort((x, y) => x[1].localeCompare(y[1], 'zh') || x[0].localeCompare(y[0], 'zh')), [aliases, filter]);
+
+  const addEntry = () => {
+    const a = variant.trim(), c = canonical.trim();
+    if (!a || !c || a === c) return;
+    onChange({ ...aliases, [a]: c });
+    setVariant('');
+  };
+
+  const removeEntry = (alias: string) => {
+    const next = { ...aliases };
+    delete next[alias];
+    onChange(next);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = evt => {
+      const parsed = parseAliasCsv(evt.target?.result as string);
+      const count = Object.keys(parsed).length;
+      if (count === 0) alert("未发现有效的别名 (格式: 标准名,别名1,别名2...，第一行为表头)");
+      else {
+        onChange({ ...aliases, ...parsed });
+        alert(`导入 ${count} 条别名`);
+      }
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob(['\uFEFF' + aliasDictionaryToCsv(aliases)], { type: 'text/csv;charset=utf-8' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = 'alias-dictionary.csv';
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.txt" onChange={handleFile} />
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-sm">别名词典 ({Object.keys(aliases).length} 条)</h4>
+        <div className="flex gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="border px-2 py-1 rounded bg-white hover:bg-gray-50 flex items-center gap-1"><DocumentTextIcon className="w-3 h-3" /> 导入 CSV</button>
+          <button onClick={exportCsv} className="border px-2 py-1 rounded bg-white hover:bg-gray-50 flex items-center gap-1"><ArrowDownTrayIcon className="w-3 h-3" /> 导出 CSV</button>
+          <button onClick={onApplyToGraph} className="bg-emerald-600 text-white px-3 py-1 rounded font-bold hover:bg-emerald-700">规范化当前图谱</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input className="border rounded px-2 py-1 flex-1" value={variant} onChange={e => setVariant(e.target.value)} placeholder="异名 (如: 黄耆)" />
+        <span className="self-center text-gray-400">→</span>
+        <input className="border rounded px-2 py-1 flex-1" value={canonical} onChange={e => setCanonical(e.target.value)} placeholder="标准名 (如: 黄芪)" onKeyDown={e => { if (e.key === 'Enter') addEntry(); }} />
+        <button onClick={addEntry} className="text-emerald-600 hover:text-emerald-800" title="添加"><PlusCircleIcon className="w-5 h-5" /></button>
+        <input className="border rounded px-2 py-1 w-32" value={filter} onChange={e => setFilter(e.target.value)} placeholder="筛选..." />
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <table className="w-full text-left bg-white border">
+          <thead className="bg-gray-100">
+            <tr><th className="p-1">异名</th><th className="p-1">标准名</th><th className="p-1 w-10"></th></tr>
+          </thead>
+          <tbody>
+            {rows.map(([alias, target]) => (
+              <tr key={alias} className="border-b">
+                <td className="p-1 font-mono">{alias}</td>
+                <td className="p-1">
+                  <input className="border-0 bg-transparent w-full focus:ring-1 focus:ring-emerald-500 rounded px-1" value={target} onChange={e => onChange({ ...aliases, [alias]: e.target.value })} />
+                </td>
+                <td className="p-1"><button onClick={() => removeEntry(alias)} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-3 h-3" /></button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 导入 CSV、文本抽取与所有分析算法都会按词典把异名归并到标准名，原写法作为节点别名保留。
+      </div>
+    </div>
+  );
+};
+
+export default AliasDictionaryEditor;
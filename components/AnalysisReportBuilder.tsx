@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ReportSectionId } from '../types';
+import { REPORT_SECTIONS } from '../services/analysisReport';
+import { DocumentArrowUpIcon } from '@heroicons/react/24/outline';
+
+export type ReportFormat = 'pdf' | 'html' | 'markdown';
+
+interface AnalysisReportBuilderProps {
+  onGenerate: (sections: ReportSectionId[], format: ReportFormat) => Promise<void>;
+}
+
+const FORMAT_LABEL: Record<ReportFormat, string> = { pdf: 'PDF', html: 'HTML', markdown: 'Markdown' };
+
+const AnalysisReportBuilder: React.FC<AnalysisReportBuilderProps> = ({ onGenerate }) => {
+  const [sections, setSections] = useState<ReportSectionId[]>(REPORT_SECTIONS.map(s => s.id));
+  const [busy, setBusy] = useState<ReportFormat | null>(null);
+
+  const toggle = (id: ReportSectionId) =>
+    setSections(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const generate = async (format: ReportFormat) => {
+    setBusy(format);
+    try {
+      await onGenerate(sections, format);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-emerald-50 border border-emerald-100 rounded p-2 text-xs mb-4">
+      <div className="font-bold text-emerald-800 mb-1 flex items-center gap-1"><DocumentArrowUpIcon className="w-4 h-4"/> 分析报告</div>
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1 mb-2">
+        {REPORT_SECTIONS.map(s => (
+          <label key={s.id} className="flex items-center gap-1">
+            <input type="checkbox" checked={sections.includes(s.id)} onChange={() => toggle(s.id)} /> {s.title}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-1">
+        {(Object.keys(FORMAT_LABEL) as ReportFormat[]).map(f => (
+          <button key={f} onClick={() => generate(f)} disabled={sections.length === 0 || busy !== null} className="bg-white border border-emerald-200 text-emerald-800 rounded py-1 font-bold hover:bg-emerald-100 disabled:opacity-50">
+            {busy === f ? '生成中...' : FORMAT_LABEL[f]}
+          </button>
+        ))}
+      </div>
+      <div className="text-[10px] text-gray-500 mt-1">按当前分析参数对全部数据重新计算，不依赖屏幕上的视图。</div>
+    </div>
+  );
+};
+
+export default AnalysisReportBuilder;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { CommunityDetectionResult } from '../types';
+
+interface CommunityPanelProps {
+  result: CommunityDetectionResult;
+  colorOf: (communityId: number) => string | undefined;
+}
+
+const TOP_MEMBERS = 8;
+
+const METHOD_LABEL: Record<CommunityDetectionResult['method'], string> = { louvain: 'Louvain', leiden: 'Leiden' };
+
+const CommunityPanel: React.FC<CommunityPanelProps> = ({ result, colorOf }) => {
+  const nodeCount = result.communities.reduce((sum, c) => sum + c.size, 0);
+  return (
+    <div className="h-1/3 border-b overflow-auto p-4 bg-gray-50">
+      <h4 className="font-bold text-sm mb-2">
+        社团列表 ({result.communities.length} 个社团, {nodeCount} 个节点)
+        <span className="ml-2 font-normal text-xs text-gray-600">
+          {METHOD_LABEL[result.method]} · 分辨率 γ = {result.resolution} · 模块度 Q = {result.modularity.toFixed(4)}
+        </span>
+      </h4>
+      <table className="w-full text-xs text-left bg-white border">
+        <thead className="bg-gray-100">
+          <tr><th className="p-1">社团</th><th className="p-1">规模</th><th className="p-1">占比</th><th className="p-1">主要成员 (按加权度)</th></tr>
+        </thead>
+        <tbody>
+          {result.communities.map(c => (
+            <tr key={c.id} className="border-b">
+              <td className="p-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full mr-1 align-middle" style={{ backgroundColor: colorOf(c.id) || '#cccccc' }} />
+                C{c.id}
+              </td>
+              <td className="p-1">{c.size}</td>
+              <td className="p-1">{(c.size / nodeCount * 100).toFixed(1)}%</td>
+              <td className="p-1">
+                {c.members.slice(0, TOP_MEMBERS).join('、')}
+                {c.members.length > TOP_MEMBERS && <span className="text-gray-400"> 等 {c.members.length} 个</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 模块度按分辨率 1 计算{result.network === 'bipartite' ? ' (二部网络采用 Barber 二部模块度)' : ''}，便于比较不同分辨率的划分。<br/>
+        * 分辨率越大，社团越多越小。
+      </div>
+    </div>
+  );
+};
+
+export default CommunityPanel;
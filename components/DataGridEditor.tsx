@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RawEntity, RawRelation } from '../types';
+import { TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface DataGridEditorProps {
+  entities: RawEntity[];
+  relations: RawRelation[];
+  entityTypes: string[];
+  relationNames: string[];
+  onRenameEntity: (oldName: string, newName: string) => void;
+  onRetypeEntities: (names: Set<string>, type: string) => void;
+  onDeleteEntities: (names: Set<string>) => void;
+  onUpdateRelation: (index: number, patch: Partial<RawRelation>) => void;
+  onDeleteRelations: (indices: Set<number>) => void;
+  onClose: () => void;
+}
+
+const MAX_ROWS = 500;
+
+// Edits are kept locally and committed on blur / Enter, so one edit is one history step
+const EditableCell: React.FC<{ value: string, list?: string, className?: string, onCommit: (value: string) => void }> = ({ value, list, className, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    const next = draft.trim();
+    if (next && next !== value) onCommit(next);
+    else setDraft(value);
+  };
+
+  return (
+    <input
+      className={`border-0 bg-transparent w-full focus:ring-1 focus:ring-emerald-500 rounded px-1 ${className || ''}`}
+      value={draft}
+      list={list}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+    />
+  );
+};
+
+const DataGridEditor: React.FC<DataGridEditorProps> = ({ entities, relations, entityTypes, relationNames, onRenameEntity, onRetypeEntities, onDeleteEntities, onUpdateRelation, onDeleteRelations, onClose }) => {
+  const [view, setView] = useState<'entities' | 'relations'>('entities');
+  const [filter, setFilter] = useState('');
+  const [selectedNames, setSelectedNames] = useState<Set<string>>(new Set());
+  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+  const [bulkType, setBulkType] = useState('');
+
+  // Selections refer to names / positions, which edits can invalidate
+  useEffect(() => setSelectedNames(new Set()), [entities]);
+  useEffect(() => setSelectedIndices(new Set()), [relations]);
+
+  const degree = useMemo(() => {
+    const counts = new Map<string, number>();
+    relations.forEach(r => {
+      counts.set(r.source, (counts.get(r.source) || 0) + 1);
+      if (r.target !== r.source) counts.set(r.target, (counts.get(r.target) || 0) + 1);
+    });
+    return counts;
+  }, [relations]);
+
+  const entityRows = useMemo(() => entities.filter(e => !filter || e.name.includes(filter) || e.type.includes(filter)), [entities, filter]);
+  const relationRows = useMemo(() => relations
+    .map((r, index) => ({ r, index }))
+    .filter(({ r }) => !filter || r.source.includes(filter) || r.target.includes(filter) || r.relation.includes(filter)), [relations, filter]);
+
+  const toggle = <T,>(set: Set<T>, key: T) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    return next;
+  };
+
+  const allEntitiesSelected = entityRows.length > 0 && entityRows.every(e => selectedNames.has(e.name));
+  const allRelationsSelected = relationRows.length > 0 && relationRows.every(({ index }) => selectedIndices.has(index));
+  const selectionCount = view === 'entities' ? selectedNames.size : selectedIndices.size;
+
+  const deleteSelected = () => {
+    if (view === 'entities') {
+      if (confirm(`删除 ${selectedNames.size} 个实体及其全部关系？`)) onDeleteEntities(selectedNames);
+    } else {
+      onDeleteRelations(selectedIndices);
+    }
+  };
+
+  const tabClass = (active: boolean) => `px-3 py-1 rounded font-bold ${active ? 'bg-emerald-600 text-white' : 'bg-white border hover:bg-gray-50'}`;
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <datalist id="grid-entity-types">{entityTypes.map(t => <option key={t} value={t} />)}</datalist>
+      <datalist id="grid-entity-names">{entities.map(e => <option key={e.name} value={e.name} />)}</datalist>
+      <datalist id="grid-relation-names">{relationNames.map(r => <option key={r} value={r} />)}</datalist>
+
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <div className="flex gap-1">
+          <button onClick={() => setView('entities')} className={tabClass(view === 'entities')}>实体 ({entities.length})</button>
+          <button onClick={() => setView('relations')} className={tabClass(view === 'relations')}>关系 ({relations.length})</button>
+        </div>
+        <div className="flex gap-2 items-center">
+          <input className="border rounded px-2 py-1 w-32" value={filter} onChange={e => setFilter(e.target.value)} placeholder="筛选..." />
+          {view === 'entities' && (
+            <>
+              <input className="border rounded px-2 py-1 w-20" list="grid-entity-types" value={bulkType} onChange={e => setBulkType(e.target.value)} placeholder="新类型" />
+              <button
+                onClick={() => { if (bulkType.trim()) onRetypeEntities(selectedNames, bulkType.trim()); }}
+                disabled={selectedNames.size === 0 || !bulkType.trim()}
+                className="border px-2 py-1 rounded bg-white hover:bg-gray-50 disabled:opacity-50"
+              >批量改类型</button>
+            </>
+          )}
+          <button onClick={deleteSelected} disabled={selectionCount === 0} className="border border-red-200 text-red-600 px-2 py-1 rounded bg-white hover:bg-red-50 disabled:opacity-50 flex items-center gap-1">
+            <TrashIcon className="w-3 h-3" /> 删除所选 ({selectionCount})
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {view === 'entities' ? (
+          <table className="w-full text-left bg-white border">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                <th className="p-1 w-6"><input type="checkbox" checked={allEntitiesSelected} onChange={() => setSelectedNames(allEntitiesSelected ? new Set() : new Set(entityRows.map(e => e.name)))} /></th>
+                <th className="p-1">名称</th><th className="p-1">类型</th><th className="p-1 w-16">关系数</th><th className="p-1 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entityRows.slice(0, MAX_ROWS).map(e => (
+                <tr key={e.name} className={`border-b ${selectedNames.has(e.name) ? 'bg-emerald-50' : ''}`}>
+                  <td className="p-1"><input type="checkbox" checked={selectedNames.has(e.name)} onChange={() => setSelectedNames(prev => toggle(prev, e.name))} /></td>
+                  <td className="p-1"><EditableCell value={e.name} className="font-bold" onCommit={v => onRenameEntity(e.name, v)} /></td>
+                  <td className="p-1"><EditableCell value={e.type} list="grid-entity-types" onCommit={v => onRetypeEntities(new Set([e.name]), v)} /></td>
+                  <td className="p-1 text-gray-500">{degree.get(e.name) || 0}</td>
+                  <td className="p-1"><button onClick={() => { if (confirm(`删除实体「${e.name}」及其全部关系？`)) onDeleteEntities(new Set([e.name])); }} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-3 h-3" /></button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full text-left bg-white border">
+            <thead className="bg-gray-100 sticky top-0">
+              <tr>
+                <th className="p-1 w-6"><input type="checkbox" checked={allRelationsSelected} onChange={() => setSelectedIndices(allRelationsSelected ? new Set() : new Set(relationRows.map(({ index }) => index)))} /></th>
+                <th className="p-1">源</th><th className="p-1">关系</th><th className="p-1">目标</th><th className="p-1 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {relationRows.slice(0, MAX_ROWS).map(({ r, index }) => (
+                <tr key={index} className={`border-b ${selectedIndices.has(index) ? 'bg-emerald-50' : ''}`}>
+                  <td className="p-1"><input type="checkbox" checked={selectedIndices.has(index)} onChange={() => setSelectedIndices(prev => toggle(prev, index))} /></td>
+                  <td className="p-1"><EditableCell value={r.source} list="grid-entity-names" onCommit={v => onUpdateRelation(index, { source: v })} /></td>
+                  <td className="p-1"><EditableCell value={r.relation} list="grid-relation-names" className="text-emerald-700" onCommit={v => onUpdateRelation(index, { relation: v })} /></td>
+                  <td className="p-1"><EditableCell value={r.target} list="grid-entity-names" onCommit={v => onUpdateRelation(index, { target: v })} /></td>
+                  <td className="p-1"><button onClick={() => onDeleteRelations(new Set([index]))} className="text-gray-400 hover:text-red-500"><TrashIcon className="w-3 h-3" /></button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 直接点击单元格编辑，回车或失焦后生效 (Esc 取消)。重命名实体会同步更新其所有关系；删除实体会一并删除相关关系。
+        {(view === 'entities' ? entityRows.length : relationRows.length) > MAX_ROWS && ` 仅显示前 ${MAX_ROWS} 行，请使用筛选。`}
+      </div>
+    </div>
+  );
+};
+
+export default DataGridEditor;
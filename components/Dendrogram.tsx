@@ -1,16 +1,27 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { DendrogramNode } from '../types';
+import { DendrogramNode, DendrogramCut, FigureExportOptions } from '../types';
+import { CameraIcon } from '@heroicons/react/24/outline';
+import { exportFigure } from '../services/figureExport';
+import FigureExportMenu from './FigureExportMenu';
 
 interface DendrogramProps {
   data: DendrogramNode;
   orientation: 'vertical' | 'horizontal';
   width: number;
   height: number;
+  cut?: DendrogramCut | null;
+  colorOf?: (cluster: number) => string;
 }
 
-const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, height }) => {
+const UNCLUSTERED_COLOR = '#cccccc';
+
+const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, height, cut, colorOf }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
+  const handleExportFigure = (options: FigureExportOptions) =>
+    svgRef.current ? exportFigure(svgRef.current, options, [], 'dendrogram') : Promise.resolve();
 
   useEffect(() => {
     if (!svgRef.current || !data) return;
@@ -18,7 +29,7 @@ const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, heigh
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
 
-    const margin = { top: 40, right: 40, bottom: 40, left: 40 };
+    const margin = { top: 40, right: 40, bottom: 40, left: 50 };
     const innerWidth = width - margin.left - margin.right;
     const innerHeight = height - margin.top - margin.bottom;
 
@@ -35,24 +46,46 @@ const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, heigh
     
     cluster(root);
 
+    // Merge height on the depth axis so the cut line lines up with the distances it separates
+    const depthExtent = orientation === 'vertical' ? innerHeight : innerWidth;
+    const depth = d3.scaleLinear().domain([Math.max(data.distance || 0, 1e-9), 0]).range([0, depthExtent]);
+    root.each(d => { d.y = depth(d.children ? d.data.distance || 0 : 0); });
+
+    // Cluster of each subtree, or -1 when it spans several clusters
+    const clusterOfLeaf = new Map<string, number>();
+    cut?.clusters.forEach((members, i) => members.forEach(m => clusterOfLeaf.set(m, i)));
+    const clusterOf = new Map<d3.HierarchyNode<DendrogramNode>, number>();
+    root.eachAfter(d => {
+      const ids = d.children ? d.children.map(c => clusterOf.get(c)!) : [clusterOfLeaf.get(d.data.name) ?? -1];
+      clusterOf.set(d, ids.every(id => id === ids[0]) ? ids[0] : -1);
+    });
+    const colorOfNode = (d: d3.HierarchyNode<DendrogramNode>) => {
+      const c = clusterOf.get(d)!;
+      return c >= 0 && colorOf ? colorOf(c) : UNCLUSTERED_COLOR;
+    };
+
     const g = svg.append("g")
        .attr("transform", `translate(${margin.left},${margin.top})`);
 
+    // Distance axis
+    if (orientation === 'vertical') g.append("g").call(d3.axisLeft(depth).ticks(5)).attr("font-size", "9px");
+    else g.append("g").attr("transform", `translate(0,${innerHeight + 10})`).call(d3.axisBottom(depth).ticks(5)).attr("font-size", "9px");
+
     // Links
     g.selectAll(".link")
       .data(root.links())
       .enter().append("path")
       .attr("class", "link")
       .attr("fill", "none")
-      .attr("stroke", "#ccc")
+      .attr("stroke", d => colorOfNode(d.source))
       .attr("stroke-width", 1.5)
       .attr("d", d => {
         if (orientation === 'vertical') {
-            // Elbow connector for vertical
-            return `M${d.source.x},${d.source.y} V${d.target.y} H${d.target.x}`;
+            // Elbow connector for vertical: crossbar at the parent's merge height
+            return `M${d.source.x},${d.source.y} H${d.target.x} V${d.target.y}`;
         } else {
             // Elbow connector for horizontal
-            return `M${d.source.y},${d.source.x} H${d.target.y} V${d.target.x}`;
+            return `M${d.source.y},${d.source.x} V${d.target.x} H${d.target.y}`;
         }
       });
 
@@ -65,7 +98,7 @@ const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, heigh
 
     node.append("circle")
       .attr("r", 3)
-      .attr("fill", d => d.data.isLeaf ? "#eab308" : "#999");
+      .attr("fill", d => d.data.isLeaf ? colorOfNode(d) : "#999");
 
     // Labels (only for leaves or if needed)
     node.filter(d => !!d.data.isLeaf)
@@ -78,11 +111,29 @@ const Dendrogram: React.FC<DendrogramProps> = ({ data, orientation, width, heigh
       .attr("transform", orientation === 'vertical' ? "rotate(90)" : "")
       .style("writing-mode", orientation === 'vertical' ? "vertical-rl" : "horizontal-tb");
 
-  }, [data, orientation, width, height]);
+    if (cut && cut.clusters.length > 1) {
+      const at = depth(cut.height);
+      g.append("line")
+        .attr("x1", orientation === 'vertical' ? 0 : at).attr("x2", orientation === 'vertical' ? innerWidth : at)
+        .attr("y1", orientation === 'vertical' ? at : 0).attr("y2", orientation === 'vertical' ? at : innerHeight)
+        .attr("stroke", "#dc2626").attr("stroke-dasharray", "4 3");
+    }
+
+  }, [data, orientation, width, height, cut, colorOf]);
 
   return (
-    <div className="w-full h-full bg-white border border-gray-100 rounded overflow-auto">
+    <div className="w-full h-full bg-white border border-gray-100 rounded overflow-auto relative">
       <svg ref={svgRef} width={width} height={height} />
+      <button
+         onClick={() => setShowExportMenu(v => !v)}
+         className="absolute top-4 right-4 bg-white/90 p-2 rounded-full shadow hover:bg-emerald-50 text-emerald-600 transition"
+         title="导出为图片"
+      >
+        <CameraIcon className="w-5 h-5" />
+      </button>
+      {showExportMenu && (
+        <FigureExportMenu hasLegend={false} onExport={handleExportFigure} onClose={() => setShowExportMenu(false)} />
+      )}
     </div>
   );
 };
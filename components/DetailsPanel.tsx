@@ -0,0 +1,77 @@
+import React from 'react';
+import { GraphNode, GraphLink, Provenance } from '../types';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { METHOD_LABEL } from '../services/provenance';
+
+interface DetailsPanelProps {
+  node: GraphNode | null;
+  link: GraphLink | null;
+  nodeProvenance?: Provenance;
+  onClose: () => void;
+}
+
+const endpointId = (end: GraphLink['source']) => typeof end === 'object' ? (end as GraphNode).id : String(end);
+
+const ProvenanceBlock: React.FC<{ provenance?: Provenance }> = ({ provenance }) => {
+  if (!provenance) return <div className="text-gray-400 italic">无来源记录</div>;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between"><span className="text-gray-500">来源方式</span><span>{METHOD_LABEL[provenance.method] || provenance.method}</span></div>
+      {provenance.document && <div className="flex justify-between gap-2"><span className="text-gray-500 shrink-0">文献</span><span className="truncate" title={provenance.document}>{provenance.document}</span></div>}
+      {provenance.row !== undefined && (
+        <div className="flex justify-between"><span className="text-gray-500">行号</span><span className="font-mono">{provenance.row}</span></div>
+      )}
+      {provenance.startOffset !== undefined && (
+        <div className="flex justify-between"><span className="text-gray-500">位置</span><span className="font-mono">{provenance.startOffset}–{provenance.endOffset}</span></div>
+      )}
+      <div className="flex justify-between"><span className="text-gray-500">时间</span><span>{new Date(provenance.timestamp).toLocaleString()}</span></div>
+      {provenance.evidence && (
+        <blockquote className="mt-1 border-l-2 border-emerald-400 bg-emerald-50 p-2 text-gray-700 whitespace-pre-wrap">{provenance.evidence}</blockquote>
+      )}
+    </div>
+  );
+};
+
+const PropertiesBlock: React.FC<{ properties?: Record<string, string> }> = ({ properties }) => {
+  if (!properties || Object.keys(properties).length === 0) return null;
+  return (
+    <div className="space-y-1 border-b pb-2">
+      {Object.entries(properties).map(([key, value]) => (
+        <div key={key} className="flex justify-between gap-2"><span className="text-gray-500 shrink-0">{key}</span><span className="text-right break-all">{value}</span></div>
+      ))}
+    </div>
+  );
+};
+
+const DetailsPanel: React.FC<DetailsPanelProps> = ({ node, link, nodeProvenance, onClose }) => {
+  if (!node && !link) return null;
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-72 max-h-[60%] overflow-auto bg-white/95 shadow-lg rounded border border-gray-100 p-3 text-xs backdrop-blur-sm">
+      <div className="flex justify-between items-center border-b pb-1 mb-2">
+        <h4 className="font-bold">{link ? '关系详情' : '节点详情'}</h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+      </div>
+
+      {link ? (
+        <div className="space-y-2">
+          <div className="font-mono bg-gray-50 p-1 rounded">{endpointId(link.source)} —{link.type}→ {endpointId(link.target)}</div>
+          <PropertiesBlock properties={link.properties} />
+          <ProvenanceBlock provenance={link.provenance} />
+        </div>
+      ) : node && (
+        <div className="space-y-2">
+          <div className="flex justify-between"><span className="text-gray-500">名称</span><span className="font-bold">{node.id}</span></div>
+          <div className="flex justify-between"><span className="text-gray-500">类型</span><span>{node.group}</span></div>
+          {node.aliases && node.aliases.length > 0 && (
+            <div className="flex justify-between gap-2"><span className="text-gray-500 shrink-0">别名</span><span className="text-right">{node.aliases.join('、')}</span></div>
+          )}
+          <PropertiesBlock properties={node.properties} />
+          <ProvenanceBlock provenance={nodeProvenance} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetailsPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { DuplicateCandidate } from '../types';
+import { ArrowUturnLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface DuplicateFinderProps {
+  candidates: DuplicateCandidate[];
+  undoLabel?: string; // Latest step in the edit history, if any
+  onMerge: (keep: string, drop: string) => void;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const ScoreBar: React.FC<{ value: number }> = ({ value }) => (
+  <div className="flex items-center gap-1">
+    <div className="w-16 h-1.5 bg-gray-100 rounded overflow-hidden">
+      <div className="h-full bg-amber-500" style={{ width: pct(value) }}></div>
+    </div>
+    <span className="font-mono">{value.toFixed(2)}</span>
+  </div>
+);
+
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ candidates, undoLabel, onMerge, onUndo, onClose }) => {
+  const [ignored, setIgnored] = useState<Set<string>>(new Set());
+  const visible = candidates.filter(c => !ignored.has(`${c.a}|${c.b}`));
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-sm">疑似重复实体 ({visible.length} 对)</h4>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!undoLabel} className="border px-2 py-1 rounded bg-white hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1" title={undoLabel ? `撤销: ${undoLabel}` : undefined}>
+            <ArrowUturnLeftIcon className="w-3 h-3" /> 撤销
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {visible.length === 0 ? (
+          <div className="text-center text-emerald-600 py-8">未发现疑似重复的实体</div>
+        ) : (
+          <table className="w-full text-left bg-white border">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="p-1">实体 A</th><th className="p-1">实体 B</th><th className="p-1">类型</th>
+                <th className="p-1">综合得分</th>
+                <th className="p-1" title="编辑距离相似度 / 拼音相似度 / 共享字符 / 邻居重叠">字形 / 拼音 / 共字 / 邻居</th>
+                <th className="p-1">操作</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(c => (
+                <tr key={`${c.a}|${c.b}`} className="border-b">
+                  <td className="p-1 font-bold">{c.a}</td>
+                  <td className="p-1 font-bold">{c.b}</td>
+                  <td className="p-1">{c.type}</td>
+                  <td className="p-1"><ScoreBar value={c.score} /></td>
+                  <td className="p-1 font-mono text-[10px] text-gray-500">{pct(c.editSimilarity)} / {pct(c.pinyinSimilarity)} / {pct(c.sharedChars)} / {pct(c.neighborOverlap)}</td>
+                  <td className="p-1">
+                    <div className="flex gap-1">
+                      <button onClick={() => onMerge(c.a, c.b)} className="border border-emerald-200 text-emerald-700 rounded px-1.5 py-0.5 hover:bg-emerald-50" title={`保留「${c.a}」，「${c.b}」作为别名`}>并入 A</button>
+                      <button onClick={() => onMerge(c.b, c.a)} className="border border-emerald-200 text-emerald-700 rounded px-1.5 py-0.5 hover:bg-emerald-50" title={`保留「${c.b}」，「${c.a}」作为别名`}>并入 B</button>
+                      <button onClick={() => setIgnored(prev => new Set(prev).add(`${c.a}|${c.b}`))} className="text-gray-400 hover:text-gray-600 px-1">忽略</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 合并会把被并入实体的所有关系改指向保留实体、去除重复边，并将原名记为别名。
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinder;
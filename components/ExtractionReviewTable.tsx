@@ -0,0 +1,119 @@
+import React from 'react';
+import { ExtractionReview, CandidateStatus, RawEntity } from '../types';
+import { unresolvedEndpoints } from '../services/extractionReview';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ExtractionReviewTableProps {
+  review: ExtractionReview;
+  entities: RawEntity[]; // Current graph, to tell which relation endpoints would be missing
+  onChange: (review: ExtractionReview) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const STATUS_LABEL: Record<CandidateStatus, { text: string, className: string }> = {
+  new: { text: '新增', className: 'bg-emerald-100 text-emerald-700' },
+  duplicate: { text: '重复', className: 'bg-gray-100 text-gray-500' },
+  conflict: { text: '冲突', className: 'bg-amber-100 text-amber-700' }
+};
+
+const chunkLabel = (chunks?: number[]) => chunks && chunks.length > 0 ? `片段 ${chunks.map(c => `#${c + 1}`).join(',')}` : '';
+
+const StatusBadge: React.FC<{ status: CandidateStatus }> = ({ status }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${STATUS_LABEL[status].className}`}>{STATUS_LABEL[status].text}</span>
+);
+
+const DecisionButtons: React.FC<{ accepted: boolean, onToggle: (accepted: boolean) => void }> = ({ accepted, onToggle }) => (
+  <div className="flex gap-1">
+    <button onClick={() => onToggle(true)} title="接受" className={`p-0.5 rounded border ${accepted ? 'bg-emerald-600 text-white border-emerald-600' : 'text-gray-400 hover:text-emerald-600'}`}>
+      <CheckIcon className="w-3 h-3" />
+    </button>
+    <button onClick={() => onToggle(false)} title="拒绝" className={`p-0.5 rounded border ${!accepted ? 'bg-red-500 text-white border-red-500' : 'text-gray-400 hover:text-red-500'}`}>
+      <XMarkIcon className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+const ExtractionReviewTable: React.FC<ExtractionReviewTableProps> = ({ review, entities, onChange, onApply, onDiscard }) => {
+  const setEntityAccepted = (idx: number, accepted: boolean) => {
+    onChange({ ...review, entities: review.entities.map((c, i) => i === idx ? { ...c, accepted } : c) });
+  };
+  // Accepting a relation also accepts its new endpoint entities, so it does not end up dangling
+  const setRelationAccepted = (idx: number, accepted: boolean) => {
+    const { source, target } = review.relations[idx].relation;
+    onChange({
+      entities: accepted ? review.entities.map(c => c.status === 'new' && (c.entity.name === source || c.entity.name === target) ? { ...c, accepted } : c) : review.entities,
+      relations: review.relations.map((c, i) => i === idx ? { ...c, accepted } : c)
+    });
+  };
+  const setAll = (accepted: boolean) => {
+    onChange({
+      entities: review.entities.map(c => c.status === 'duplicate' ? c : { ...c, accepted }),
+      relations: review.relations.map(c => c.status === 'duplicate' ? c : { ...c, accepted })
+    });
+  };
+
+  const acceptedCount = review.entities.filter(c => c.accepted).length + review.relations.filter(c => c.accepted).length;
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-sm">抽取结果审核 ({review.entities.length} 实体 / {review.relations.length} 关系)</h4>
+        <div className="flex gap-2">
+          <button onClick={() => setAll(true)} className="border px-2 py-1 rounded bg-white hover:bg-gray-50">全部接受</button>
+          <button onClick={() => setAll(false)} className="border px-2 py-1 rounded bg-white hover:bg-gray-50">全部拒绝</button>
+          <button onClick={onDiscard} className="border border-red-200 text-red-600 px-2 py-1 rounded bg-white hover:bg-red-50">放弃</button>
+          <button onClick={onApply} disabled={acceptedCount === 0} className="bg-emerald-600 text-white px-3 py-1 rounded font-bold hover:bg-emerald-700 disabled:opacity-50">合并已接受 ({acceptedCount})</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto grid grid-cols-2 gap-4">
+        <table className="w-full text-left bg-white border self-start">
+          <thead className="bg-gray-100">
+            <tr><th className="p-1">状态</th><th className="p-1">类型</th><th className="p-1">名称</th><th className="p-1">说明</th><th className="p-1">操作</th></tr>
+          </thead>
+          <tbody>
+            {review.entities.map((c, i) => (
+              <tr key={`${c.entity.name}-${i}`} className={`border-b ${c.accepted ? '' : 'opacity-60'}`}>
+                <td className="p-1"><StatusBadge status={c.status} /></td>
+                <td className="p-1">{c.entity.type}</td>
+                <td className="p-1 font-mono">{c.entity.name}</td>
+                <td className="p-1 text-[10px] text-gray-500">{c.status === 'conflict' ? `现有类型: ${c.existingType} ` : ''}{chunkLabel(c.entity.sourceChunks)}</td>
+                <td className="p-1"><DecisionButtons accepted={c.accepted} onToggle={a => setEntityAccepted(i, a)} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <table className="w-full text-left bg-white border self-start">
+          <thead className="bg-gray-100">
+            <tr><th className="p-1">状态</th><th className="p-1">三元组</th><th className="p-1">说明</th><th className="p-1">操作</th></tr>
+          </thead>
+          <tbody>
+            {review.relations.map((c, i) => {
+              const missing = c.accepted && c.status !== 'duplicate' ? unresolvedEndpoints(c.relation, review, entities) : [];
+              return (
+                <tr key={`${c.relation.source}-${c.relation.relation}-${c.relation.target}-${i}`} className={`border-b ${c.accepted ? '' : 'opacity-60'} ${missing.length > 0 ? 'bg-red-50' : ''}`}>
+                  <td className="p-1"><StatusBadge status={c.status} /></td>
+                  <td className="p-1 font-mono">{c.relation.source} —{c.relation.relation}→ {c.relation.target}</td>
+                  <td className="p-1 text-[10px] text-gray-500">
+                    {missing.length > 0 && <span className="text-red-600">缺少端点: {missing.join('、')} (合并时跳过) </span>}
+                    {c.status === 'conflict' ? `已有关系: ${c.existingRelations?.join('、')} ` : ''}{chunkLabel(c.relation.sourceChunks)}
+                  </td>
+                  <td className="p-1"><DecisionButtons accepted={c.accepted} onToggle={a => setRelationAccepted(i, a)} /></td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 冲突实体: 接受后将现有实体改为抽取出的类型。冲突关系: 接受后与已有关系并存。重复项无需合并。<br/>
+        * 接受关系时会一并接受其新增端点实体；端点既不在图谱中也未被接受的关系 (红色标出) 不会合并。
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionReviewTable;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { FigureExportOptions } from '../types';
+import { readFontFile } from '../services/figureExport';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface FigureExportMenuProps {
+  hasLegend: boolean;
+  onExport: (options: FigureExportOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const DPI_OPTIONS = [150, 300, 600];
+
+const FigureExportMenu: React.FC<FigureExportMenuProps> = ({ hasLegend, onExport, onClose }) => {
+  const [options, setOptions] = useState<FigureExportOptions>({ format: 'png', dpi: 300, extent: 'full', legend: hasLegend });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<FigureExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleFont = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    update({ font: file ? await readFontFile(file) : undefined });
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onExport(options);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute top-14 right-4 z-10 w-56 bg-white/95 shadow-lg rounded border border-gray-100 p-2 text-xs backdrop-blur-sm space-y-2">
+      <div className="flex justify-between items-center border-b pb-1">
+        <h4 className="font-bold">导出图片</h4>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+      </div>
+      <label className="flex items-center justify-between">格式
+        <select className="border rounded p-1" value={options.format} onChange={e => update({ format: e.target.value as FigureExportOptions['format'] })}>
+          <option value="png">PNG (位图)</option>
+          <option value="svg">SVG (矢量)</option>
+        </select>
+      </label>
+      {options.format === 'png' && (
+        <label className="flex items-center justify-between">分辨率
+          <select className="border rounded p-1" value={options.dpi} onChange={e => update({ dpi: Number(e.target.value) })}>
+            {DPI_OPTIONS.map(d => <option key={d} value={d}>{d} DPI</option>)}
+          </select>
+        </label>
+      )}
+      <label className="flex items-center justify-between">范围
+        <select className="border rounded p-1" value={options.extent} onChange={e => update({ extent: e.target.value as FigureExportOptions['extent'] })}>
+          <option value="full">完整图谱</option>
+          <option value="viewport">当前视图</option>
+        </select>
+      </label>
+      {hasLegend && (
+        <label className="flex items-center gap-1"><input type="checkbox" checked={options.legend} onChange={e => update({ legend: e.target.checked })} /> 添加图例</label>
+      )}
+      <div>
+        <div className="text-gray-600 mb-0.5">嵌入字体 (默认嵌入内置 Noto Sans SC 的所用字形)</div>
+        <input type="file" accept=".ttf,.otf,.woff,.woff2" onChange={handleFont} className="w-full text-[10px]" />
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+      <button onClick={handleExport} disabled={busy} className="w-full bg-emerald-600 text-white py-1 rounded font-bold hover:bg-emerald-700 disabled:opacity-50">
+        {busy ? '导出中...' : '导出'}
+      </button>
+    </div>
+  );
+};
+
+export default FigureExportMenu;
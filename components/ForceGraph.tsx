@@ -1,7 +1,9 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { GraphData, GraphNode, GraphLink, GraphConfig, GroupStyleMap, NodeShape } from '../types';
+import { GraphData, GraphNode, GraphLink, GraphConfig, GroupStyleMap, NodeShape, NodePositions, FigureExportOptions } from '../types';
 import { CameraIcon } from '@heroicons/react/24/outline';
+import { exportFigure, buildLegend } from '../services/figureExport';
+import FigureExportMenu from './FigureExportMenu';
 
 interface ForceGraphProps {
   data: GraphData;
@@ -13,6 +15,10 @@ interface ForceGraphProps {
   onNodeClick: (node: GraphNode) => void;
   onNodeDoubleClick: (node: GraphNode) => void;
   onNodeContextMenu?: (event: MouseEvent, node: GraphNode) => void;
+  onLinkClick?: (link: GraphLink) => void;
+  positions?: NodePositions; // Saved layout to start from
+  onLayoutChange?: (positions: NodePositions) => void; // Fired when the layout settles or a drag ends
+  onCreateLink?: (source: GraphNode, target: GraphNode) => void; // Enables Shift+drag between nodes
 }
 
 const ForceGraph: React.FC<ForceGraphProps> = ({ 
@@ -23,11 +29,19 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
   groupStyles, 
   onNodeClick,
   onNodeDoubleClick,
-  onNodeContextMenu
+  onNodeContextMenu,
+  onLinkClick,
+  positions,
+  onLayoutChange,
+  onCreateLink
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
+  // Read through a ref so the handler sees current app state without rebuilding the simulation
+  const onCreateLinkRef = useRef(onCreateLink);
+  onCreateLinkRef.current = onCreateLink;
+  const [showExportMenu, setShowExportMenu] = useState(false);
 
   const { 
     chargeStrength, 
@@ -50,48 +64,8 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
     }
   };
 
-  const saveAsImage = () => {
-    if (!svgRef.current) return;
-    const svg = svgRef.current;
-    
-    // Get SVG source
-    const serializer = new XMLSerializer();
-    let source = serializer.serializeToString(svg);
-
-    // Add name spaces
-    if(!source.match(/^<svg[^>]+xmlns="http\:\/\/www\.w3\.org\/2000\/svg"/)){
-        source = source.replace(/^<svg/, '<svg xmlns="http://www.w3.org/2000/svg"');
-    }
-    if(!source.match(/^<svg[^>]+xmlns:xlink="http\:\/\/www\.w3\.org\/1999\/xlink"/)){
-        source = source.replace(/^<svg/, '<svg xmlns:xlink="http://www.w3.org/1999/xlink"');
-    }
-
-    // Add XML declaration
-    source = '<?xml version="1.0" standalone="no"?>\r\n' + source;
-
-    // Convert to blob and draw to canvas to export as PNG
-    const imgsrc = 'data:image/svg+xml;charset=utf-8,'+encodeURIComponent(source);
-    
-    const canvas = document.createElement("canvas");
-    canvas.width = width;
-    canvas.height = height;
-    const context = canvas.getContext("2d");
-    if (!context) return;
-    
-    // Fill white background
-    context.fillStyle = "#ffffff";
-    context.fillRect(0,0,width,height);
-
-    const image = new Image();
-    image.onload = function() {
-        context.drawImage(image, 0, 0);
-        const a = document.createElement("a");
-        a.download = "knowledge-graph.png";
-        a.href = canvas.toDataURL("image/png");
-        a.click();
-    };
-    image.src = imgsrc;
-  };
+  const handleExportFigure = (options: FigureExportOptions) =>
+    svgRef.current ? exportFigure(svgRef.current, options, buildLegend(data.nodes, groupStyles), 'knowledge-graph') : Promise.resolve();
 
   useEffect(() => {
     if (!svgRef.current || width === 0 || height === 0) return;
@@ -126,6 +100,22 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
       return nodeIds.has(s) && nodeIds.has(t);
     });
 
+    // Nodes with a saved position start there instead of at a random spot
+    let placed = 0;
+    if (positions) {
+      data.nodes.forEach(n => {
+        const p = positions[n.id];
+        if (p && n.x === undefined) { n.x = p.x; n.y = p.y; placed++; }
+      });
+    }
+
+    const reportLayout = () => {
+      if (!onLayoutChange) return;
+      const next: NodePositions = {};
+      data.nodes.forEach(n => { if (n.x !== undefined && n.y !== undefined) next[n.id] = { x: Math.round(n.x), y: Math.round(n.y) }; });
+      onLayoutChange(next);
+    };
+
     const simulation = d3.forceSimulation<GraphNode, GraphLink>(data.nodes)
       .force("link", d3.forceLink<GraphNode, GraphLink>(validLinks).id(d => d.id).distance(linkDistance))
       .force("charge", d3.forceManyBody().strength(chargeStrength))
@@ -175,6 +165,19 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
       link.attr("marker-end", "url(#arrow)");
     }
 
+    // Wide transparent strokes make thin links easy to click
+    const linkHit = container.append("g")
+      .selectAll<SVGLineElement, GraphLink>("line")
+      .data(validLinks)
+      .join("line")
+      .attr("stroke", "transparent")
+      .attr("stroke-width", 10)
+      .style("cursor", onLinkClick ? "pointer" : "default")
+      .on("click", (event, d) => {
+        event.stopPropagation();
+        if (onLinkClick) onLinkClick(d);
+      });
+
     const linkLabel = container.append("g")
       .selectAll<SVGTextElement, GraphLink>("text")
       .data(validLinks)
@@ -185,6 +188,15 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
       .attr("text-anchor", "middle")
       .attr("dy", -4);
 
+    // Rubber band shown while Shift+dragging a new relation
+    const linkDraft = container.append("line")
+      .attr("stroke", "#10b981")
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "4 3")
+      .style("pointer-events", "none")
+      .style("display", "none");
+    let linkingFrom: GraphNode | null = null;
+
     const node = container.append("g")
       .selectAll<SVGGElement, GraphNode>("g")
       .data(data.nodes)
@@ -244,6 +256,12 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
         .attr("x2", (d) => (d.target as GraphNode).x!)
         .attr("y2", (d) => (d.target as GraphNode).y!);
 
+      linkHit
+        .attr("x1", (d) => (d.source as GraphNode).x!)
+        .attr("y1", (d) => (d.source as GraphNode).y!)
+        .attr("x2", (d) => (d.target as GraphNode).x!)
+        .attr("y2", (d) => (d.target as GraphNode).y!);
+
       linkLabel
         .attr("x", (d) => ((d.source as GraphNode).x! + (d.target as GraphNode).x!) / 2)
         .attr("y", (d) => ((d.source as GraphNode).y! + (d.target as GraphNode).y!) / 2);
@@ -252,17 +270,27 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
     }
 
     simulation.on("tick", ticked);
+    simulation.on("end", reportLayout);
     
     if (!enablePhysics) {
-      // Run a few ticks then stop if physics disabled
-      simulation.tick(100);
+      // Run a few ticks then stop if physics disabled (a fully restored layout is kept as saved)
+      if (placed < data.nodes.length) simulation.tick(100);
       ticked(); 
       simulation.stop();
+      reportLayout();
     } else {
-      simulation.alpha(1).restart();
+      // A fully restored layout only needs a gentle settle
+      simulation.alpha(placed === data.nodes.length ? 0.1 : 1).restart();
     }
 
     function dragstarted(event: d3.D3DragEvent<SVGGElement, GraphNode, unknown>, d: GraphNode) {
+      if (onCreateLink && event.sourceEvent?.shiftKey) {
+        linkingFrom = d;
+        linkDraft.style("display", null)
+          .attr("x1", d.x!).attr("y1", d.y!)
+          .attr("x2", d.x!).attr("y2", d.y!);
+        return;
+      }
       if (simulationRef.current && config.enablePhysics) {
          simulationRef.current.alphaTarget(0.3).restart();
       }
@@ -271,6 +299,10 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
     }
 
     function dragged(event: d3.D3DragEvent<SVGGElement, GraphNode, unknown>, d: GraphNode) {
+      if (linkingFrom) {
+        linkDraft.attr("x2", event.x).attr("y2", event.y);
+        return;
+      }
       d.fx = event.x;
       d.fy = event.y;
       if (!config.enablePhysics) {
@@ -281,12 +313,21 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
     }
 
     function dragended(event: d3.D3DragEvent<SVGGElement, GraphNode, unknown>, d: GraphNode) {
+      if (linkingFrom) {
+        const target = simulation.find(event.x, event.y, 20);
+        linkDraft.style("display", "none");
+        if (target && target !== linkingFrom) onCreateLinkRef.current?.(linkingFrom, target);
+        linkingFrom = null;
+        return;
+      }
       if (simulationRef.current && config.enablePhysics) {
         simulationRef.current.alphaTarget(0);
       }
       if (config.enablePhysics) {
          d.fx = null;
          d.fy = null;
+      } else {
+         reportLayout();
       }
     }
     
@@ -314,16 +355,20 @@ const ForceGraph: React.FC<ForceGraphProps> = ({
       <svg ref={svgRef} width={width} height={height} className="block cursor-grab active:cursor-grabbing" />
       <div className="absolute top-4 right-4 flex gap-2">
         <button 
-           onClick={saveAsImage}
+           onClick={() => setShowExportMenu(v => !v)}
            className="bg-white/90 p-2 rounded-full shadow hover:bg-emerald-50 text-emerald-600 transition"
            title="导出为图片"
         >
           <CameraIcon className="w-5 h-5" />
         </button>
       </div>
+      {showExportMenu && (
+        <FigureExportMenu hasLegend={data.nodes.length > 0} onExport={handleExportFigure} onClose={() => setShowExportMenu(false)} />
+      )}
       <div className="absolute bottom-4 right-4 bg-white/90 p-2 rounded shadow text-xs text-gray-500 flex flex-col gap-1 pointer-events-none border border-gray-100 backdrop-blur-sm">
         <span>左键: 选择/拖拽 | 双击: 聚焦</span>
         <span>右键: 更多选项 | 滚轮: 缩放</span>
+        {onCreateLink && <span>Shift+拖拽: 在两节点间新建关系</span>}
       </div>
     </div>
   );
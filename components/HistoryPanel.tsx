@@ -0,0 +1,41 @@
+import React from 'react';
+import { HistoryEntry } from '../services/history';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<unknown>[];
+  index: number;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, onJump, onUndo, onRedo, onClose }) => (
+  <div className="absolute top-4 left-4 z-10 w-60 max-h-[70%] flex flex-col bg-white/95 shadow-lg rounded border border-gray-100 p-2 text-xs backdrop-blur-sm">
+    <div className="flex justify-between items-center border-b pb-1 mb-1">
+      <h4 className="font-bold">操作历史</h4>
+      <div className="flex gap-1">
+        <button onClick={onUndo} disabled={index <= 0} className="p-1 text-gray-500 hover:text-emerald-600 disabled:opacity-30" title="撤销 (Ctrl+Z)"><ArrowUturnLeftIcon className="w-4 h-4" /></button>
+        <button onClick={onRedo} disabled={index >= entries.length - 1} className="p-1 text-gray-500 hover:text-emerald-600 disabled:opacity-30" title="重做 (Ctrl+Shift+Z)"><ArrowUturnRightIcon className="w-4 h-4" /></button>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+      </div>
+    </div>
+    <div className="flex-1 overflow-auto">
+      {entries.length === 0 ? (
+        <div className="text-gray-400 italic p-2">暂无编辑记录</div>
+      ) : entries.map((entry, i) => (
+        <button
+          key={`${i}-${entry.timestamp}`}
+          onClick={() => onJump(i)}
+          className={`w-full text-left px-2 py-1 rounded flex justify-between gap-2 ${i === index ? 'bg-emerald-100 text-emerald-800 font-bold' : i > index ? 'text-gray-400 hover:bg-gray-50' : 'hover:bg-gray-50'}`}
+        >
+          <span className="truncate" title={entry.label}>{entry.label}</span>
+          <span className="shrink-0 font-mono text-[10px] text-gray-400">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default HistoryPanel;
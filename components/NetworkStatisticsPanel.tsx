@@ -0,0 +1,81 @@
+import React from 'react';
+import * as d3 from 'd3';
+import { NetworkMetadata } from '../types';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface NetworkStatisticsPanelProps {
+  title: string;
+  metadata: NetworkMetadata;
+  onClose: () => void;
+}
+
+const PLOT = { width: 236, height: 140, left: 30, right: 8, top: 8, bottom: 24 };
+
+const format = (value: number | undefined, digits = 3) => value === undefined ? '—' : Number.isInteger(value) ? String(value) : value.toFixed(digits);
+
+// Degree distribution P(k) on log-log axes; isolated nodes (k = 0) cannot be placed and are only counted
+const DegreeDistributionPlot: React.FC<{ distribution: { degree: number, count: number }[], total: number }> = ({ distribution, total }) => {
+  const points = distribution.filter(d => d.degree > 0).map(d => ({ k: d.degree, p: d.count / total }));
+  if (points.length === 0) return <div className="text-gray-400 italic">没有非孤立节点</div>;
+
+  const x = d3.scaleLog().domain([1, Math.max(2, d3.max(points, d => d.k)!)]).range([PLOT.left, PLOT.width - PLOT.right]).nice();
+  const y = d3.scaleLog().domain([Math.min(d3.min(points, d => d.p)!, 0.1), 1]).range([PLOT.height - PLOT.bottom, PLOT.top]).nice();
+  const decades = (scale: d3.ScaleLogarithmic<number, number>) => scale.ticks().filter(t => Math.abs(Math.log10(t) % 1) < 1e-9);
+
+  return (
+    <svg width={PLOT.width} height={PLOT.height} className="block">
+      <line x1={PLOT.left} x2={PLOT.width - PLOT.right} y1={PLOT.height - PLOT.bottom} y2={PLOT.height - PLOT.bottom} stroke="#9ca3af" />
+      <line x1={PLOT.left} x2={PLOT.left} y1={PLOT.top} y2={PLOT.height - PLOT.bottom} stroke="#9ca3af" />
+      {decades(x).map(t => (
+        <text key={`x${t}`} x={x(t)} y={PLOT.height - PLOT.bottom + 10} fontSize="8" textAnchor="middle" fill="#6b7280">{t}</text>
+      ))}
+      {decades(y).map(t => (
+        <text key={`y${t}`} x={PLOT.left - 3} y={y(t) + 3} fontSize="8" textAnchor="end" fill="#6b7280">{t}</text>
+      ))}
+      <text x={(PLOT.left + PLOT.width - PLOT.right) / 2} y={PLOT.height - 2} fontSize="9" textAnchor="middle" fill="#374151">度 k</text>
+      <text x={8} y={PLOT.top + 8} fontSize="9" fill="#374151">P(k)</text>
+      {points.map(d => <circle key={d.k} cx={x(d.k)} cy={y(d.p)} r={2.5} fill="#10b981" fillOpacity={0.8}><title>k = {d.k}, P = {d.p.toFixed(4)}</title></circle>)}
+    </svg>
+  );
+};
+
+const NetworkStatisticsPanel: React.FC<NetworkStatisticsPanelProps> = ({ title, metadata, onClose }) => {
+  const isolated = metadata.degreeDistribution?.find(d => d.degree === 0)?.count || 0;
+  const rows: [string, string][] = [
+    ['节点数', format(metadata.nodeCount)],
+    ['边数', format(metadata.edgeCount)],
+    ['密度', format(metadata.density, 4)],
+    ['平均度', format(metadata.avgDegree, 2)],
+    ['连通分量', `${format(metadata.componentCount)} (最大 ${format(metadata.largestComponentSize)})`],
+    ['直径', format(metadata.diameter)],
+    ['平均路径长度', format(metadata.avgPathLength)],
+    ['全局聚类系数', format(metadata.globalClusteringCoeff)],
+    ['平均聚类系数', format(metadata.avgClusteringCoeff)],
+    ['度同配系数', format(metadata.assortativity)],
+    ...(metadata.transactionCount !== undefined ? [['事务数', format(metadata.transactionCount)] as [string, string]] : [])
+  ];
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-64 max-h-[90%] overflow-auto bg-white/95 shadow-lg rounded border border-gray-100 p-2 text-xs backdrop-blur-sm">
+      <div className="flex justify-between items-center border-b pb-1 mb-1">
+        <h4 className="font-bold">网络统计 <span className="font-normal text-gray-500">({title})</span></h4>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+      </div>
+      <table className="w-full mb-2">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}><td className="text-gray-600 py-0.5">{label}</td><td className="text-right font-mono">{value}</td></tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="font-bold mb-1">度分布 (双对数)</div>
+      {metadata.degreeDistribution && metadata.nodeCount ? (
+        <DegreeDistributionPlot distribution={metadata.degreeDistribution} total={metadata.nodeCount} />
+      ) : <div className="text-gray-400 italic">无数据</div>}
+      {isolated > 0 && <div className="text-[10px] text-gray-500">另有 {isolated} 个孤立节点 (k = 0) 未绘制</div>}
+      <div className="text-[10px] text-gray-500 mt-1">* 按无向简单图计算：重复关系合并，自环忽略；路径只在连通分量内计算。</div>
+    </div>
+  );
+};
+
+export default NetworkStatisticsPanel;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AlgorithmType, AnalysisRunRecord } from '../types';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ClockIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface RunLogPanelProps {
+  records: AnalysisRunRecord[];
+  datasetHash: string; // Of the current data, to flag runs made on different data
+  onRestore: (record: AnalysisRunRecord) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const ALGORITHM_LABEL: Record<AlgorithmType, string> = {
+  [AlgorithmType.HIERARCHICAL]: '层次聚类',
+  [AlgorithmType.KMEANS]: 'K-Means 聚类',
+  [AlgorithmType.COMMUNITY]: '社团分析',
+  [AlgorithmType.ASSOCIATION]: '关联分析',
+  [AlgorithmType.COMPLEX_NETWORK]: '复杂网络分析',
+  [AlgorithmType.CENTRALITY]: '中心性分析'
+};
+
+const RunLogPanel: React.FC<RunLogPanelProps> = ({ records, datasetHash, onRestore, onExport, onClear }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="border rounded p-2 text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <div className="font-bold flex items-center gap-1"><ClockIcon className="w-4 h-4"/> 运行记录 ({records.length})</div>
+        <div className="flex gap-1">
+          <button onClick={onExport} disabled={records.length === 0} className="p-1 text-gray-500 hover:text-emerald-600 disabled:opacity-30" title="导出运行记录 (JSON)"><ArrowDownTrayIcon className="w-4 h-4"/></button>
+          <button onClick={onClear} disabled={records.length === 0} className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30" title="清空运行记录"><TrashIcon className="w-4 h-4"/></button>
+        </div>
+      </div>
+      <div className="text-[10px] text-gray-500 mb-1">当前数据指纹 <span className="font-mono">{datasetHash}</span></div>
+      <div className="max-h-60 overflow-auto space-y-1">
+        {records.length === 0 ? (
+          <div className="text-gray-400 italic p-1">运行算法后在此记录参数、随机种子与数据指纹</div>
+        ) : [...records].reverse().map(r => (
+          <div key={r.id} className="border rounded p-1 bg-white">
+            <div className="flex justify-between items-center gap-1">
+              <button onClick={() => setExpanded(expanded === r.id ? null : r.id)} className="text-left font-bold truncate hover:text-emerald-700">{ALGORITHM_LABEL[r.algorithm]}</button>
+              <span className="shrink-0 font-mono text-[10px] text-gray-400">{new Date(r.timestamp).toLocaleString()}</span>
+            </div>
+            <div className="text-gray-600">{r.summary}</div>
+            <div className="flex justify-between items-center text-[10px]">
+              <span className="font-mono text-gray-500">
+                {r.seed !== undefined && <>种子 {r.seed} · </>}
+                <span className={r.datasetHash === datasetHash ? 'text-emerald-600' : 'text-orange-600'} title={r.datasetHash === datasetHash ? '与当前数据一致' : '运行后数据已变化'}>{r.datasetHash}</span>
+              </span>
+              <button onClick={() => onRestore(r)} className="flex items-center gap-0.5 text-emerald-700 hover:underline" title="恢复该次运行的算法与参数"><ArrowUturnLeftIcon className="w-3 h-3"/> 恢复参数</button>
+            </div>
+            {expanded === r.id && (
+              <pre className="mt-1 p-1 bg-gray-50 rounded text-[10px] overflow-auto max-h-40">{JSON.stringify(r.parameters, null, 2)}</pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RunLogPanel;
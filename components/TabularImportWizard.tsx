@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TabularSource, ImportTarget, ColumnRole, ImportIssueKind, ImportPlan, RawEntity, RawRelation, OntologySchema, AliasDictionary } from '../types';
+import { guessColumnMapping, buildImportPlan, ROLE_LABEL, REQUIRED_ROLES, TARGET_ROLES } from '../services/tabularImport';
+
+interface TabularImportWizardProps {
+  source: TabularSource;
+  entities: RawEntity[];
+  relations: RawRelation[];
+  schema: OntologySchema;
+  aliases: AliasDictionary;
+  onImport: (plan: ImportPlan) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const ISSUE_LABEL: Record<ImportIssueKind, { text: string, className: string }> = {
+  missingField: { text: '缺少字段', className: 'bg-red-100 text-red-700' },
+  duplicate: { text: '重复', className: 'bg-red-100 text-red-700' },
+  missingEndpoint: { text: '端点缺失', className: 'bg-amber-100 text-amber-700' },
+  unknownType: { text: '未知类型', className: 'bg-gray-100 text-gray-600' },
+  unknownRelation: { text: '未知关系', className: 'bg-gray-100 text-gray-600' },
+  typeChange: { text: '类型变更', className: 'bg-blue-100 text-blue-700' }
+};
+
+const TARGET_LABEL: Record<ImportTarget, string> = { entity: '实体表', relation: '关系表', triple: '三元组表 (含实体类型)' };
+
+const TabularImportWizard: React.FC<TabularImportWizardProps> = ({ source, entities, relations, schema, aliases, onImport, onCancel }) => {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [hasHeader, setHasHeader] = useState(true);
+  const initial = guessColumnMapping(source.sheets[0]?.rows[0] || []);
+  const [target, setTarget] = useState<ImportTarget>(initial.target);
+  const [mapping, setMapping] = useState<ColumnRole[]>(initial.mapping);
+  const [endpointTypes, setEndpointTypes] = useState<Record<string, string>>({});
+
+  const sheet = source.sheets[sheetIndex];
+  const rows = sheet?.rows || [];
+  const columnCount = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  const header = hasHeader ? rows[0] || [] : [];
+
+  const remap = (nextRows: string[][], nextTarget?: ImportTarget) => {
+    const guess = guessColumnMapping(nextRows[0] || [], nextTarget);
+    setTarget(guess.target);
+    setMapping(guess.mapping);
+    setEndpointTypes({});
+  };
+
+  // A newly opened file starts over at its first sheet
+  useEffect(() => {
+    setSheetIndex(0);
+    remap(source.sheets[0]?.rows || []);
+  }, [source]);
+
+  const handleSheetChange = (idx: number) => {
+    setSheetIndex(idx);
+    remap(source.sheets[idx]?.rows || []);
+  };
+
+  const setRole = (col: number, role: ColumnRole) => {
+    // A required role belongs to one column only; the previous holder becomes a property column
+    const next = Array.from({ length: columnCount }, (_, i) => mapping[i] || 'ignore');
+    if (role !== 'property' && role !== 'ignore') {
+      next.forEach((r, i) => { if (r === role) next[i] = 'property'; });
+    }
+    next[col] = role;
+    setMapping(next);
+  };
+
+  const missingRoles = REQUIRED_ROLES[target].filter(r => !mapping.includes(r));
+
+  const plan = useMemo(() => !sheet || missingRoles.length > 0 ? null : buildImportPlan(sheet, mapping, target, hasHeader, {
+    entities, relations, schema, aliases, document: source.fileName, endpointTypes
+  }), [sheet, mapping, target, hasHeader, entities, relations, schema, aliases, source.fileName, endpointTypes, missingRoles.length]);
+
+  const errorCount = plan ? plan.issues.filter(i => i.severity === 'error').length : 0;
+  const importCount = plan ? plan.entities.length + plan.relations.length : 0;
+  const roleOptions: ColumnRole[] = [...TARGET_ROLES[target], 'property', 'ignore'];
+
+  // Dangling endpoints are fixed by giving them a type, which turns them into new entities
+  const dangling = plan ? plan.issues.filter(i => i.kind === 'missingEndpoint' && i.entityName) : [];
+  const suggested = dangling.filter(i => i.suggestedType);
+  const createEndpoint = (name: string, type: string) => setEndpointTypes(prev => ({ ...prev, [name]: type }));
+  const createSuggested = () => setEndpointTypes(prev => suggested.reduce((acc, i) => ({ ...acc, [i.entityName!]: i.suggestedType! }), prev));
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-sm truncate" title={source.fileName}>表格导入: {source.fileName} <span className="font-normal text-gray-500">({source.encoding})</span></h4>
+        <div className="flex gap-2 shrink-0">
+          <button onClick={onCancel} className="border border-red-200 text-red-600 px-2 py-1 rounded bg-white hover:bg-red-50">取消</button>
+          <button onClick={() => plan && onImport(plan)} disabled={importCount === 0} className="bg-emerald-600 text-white px-3 py-1 rounded font-bold hover:bg-emerald-700 disabled:opacity-50">
+            导入 {importCount} 条{errorCount > 0 ? ` (跳过 ${plan?.skippedRows} 行)` : ''}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-2">
+        {source.sheets.length > 1 && (
+          <label className="flex items-center gap-1">工作表
+            <select className="border rounded p-1" value={sheetIndex} onChange={e => handleSheetChange(Number(e.target.value))}>
+              {source.sheets.map((s, i) => <option key={s.name} value={i}>{s.name}</option>)}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-1">导入为
+          <select className="border rounded p-1" value={target} onChange={e => remap(rows, e.target.value as ImportTarget)}>
+            {(Object.keys(TARGET_LABEL) as ImportTarget[]).map(t => <option key={t} value={t}>{TARGET_LABEL[t]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1"><input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} /> 首行为表头</label>
+        <span className="text-gray-500">共 {Math.max(rows.length - (hasHeader ? 1 : 0), 0)} 行数据</span>
+      </div>
+
+      <div className="overflow-auto border bg-white mb-2 max-h-[45%]">
+        <table className="w-full text-left">
+          <thead className="bg-gray-100 sticky top-0">
+            <tr>
+              <th className="p-1 w-8 text-gray-400">#</th>
+              {Array.from({ length: columnCount }, (_, c) => (
+                <th key={c} className="p-1 font-normal">
+                  <div className="font-bold truncate">{header[c] || `列${c + 1}`}</div>
+                  <select className={`border rounded p-0.5 text-[10px] ${mapping[c] && mapping[c] !== 'property' && mapping[c] !== 'ignore' ? 'border-emerald-400 text-emerald-700' : ''}`} value={mapping[c] || 'ignore'} onChange={e => setRole(c, e.target.value as ColumnRole)}>
+                    {roleOptions.map(r => <option key={r} value={r}>{ROLE_LABEL[r]}</option>)}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS).map((r, i) => (
+              <tr key={i} className="border-b">
+                <td className="p-1 text-gray-400">{sheet?.rowNumbers[i + (hasHeader ? 1 : 0)]}</td>
+                {Array.from({ length: columnCount }, (_, c) => (
+                  <td key={c} className={`p-1 font-mono truncate max-w-[10rem] ${mapping[c] === 'ignore' ? 'text-gray-300' : ''}`}>{r[c]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {missingRoles.length > 0 ? (
+          <div className="text-red-600">请为以下字段指定列: {missingRoles.map(r => ROLE_LABEL[r]).join('、')}</div>
+        ) : plan && plan.issues.length === 0 ? (
+          <div className="text-emerald-700">全部 {plan.rowCount} 行校验通过。</div>
+        ) : plan && (
+          <>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-gray-600">将新建 {plan.entities.length} 个实体、{plan.relations.length} 条关系{plan.retyped.length > 0 ? `，更新 ${plan.retyped.length} 个实体的类型` : ''}</span>
+            {suggested.length > 0 && (
+              <button onClick={createSuggested} className="text-emerald-700 border border-emerald-200 rounded px-2 py-0.5 bg-white hover:bg-emerald-50">按建议类型创建缺失端点 ({suggested.length})</button>
+            )}
+          </div>
+          <table className="w-full text-left bg-white border">
+            <thead className="bg-gray-100">
+              <tr><th className="p-1">行</th><th className="p-1">问题</th><th className="p-1">说明</th><th className="p-1">处理</th></tr>
+            </thead>
+            <tbody>
+              {plan.issues.map((issue, i) => (
+                <tr key={`${issue.row}-${issue.kind}-${i}`} className="border-b">
+                  <td className="p-1 font-mono">{issue.row}</td>
+                  <td className="p-1"><span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${ISSUE_LABEL[issue.kind].className}`}>{ISSUE_LABEL[issue.kind].text}</span></td>
+                  <td className="p-1">{issue.message}</td>
+                  <td className={`p-1 text-[10px] ${issue.severity === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {issue.kind === 'missingEndpoint' && issue.entityName ? (
+                      <select className="border rounded p-0.5 text-[10px]" value="" onChange={e => e.target.value && createEndpoint(issue.entityName!, e.target.value)}>
+                        <option value="">创建为实体…</option>
+                        {schema.entityTypes.map(t => <option key={t} value={t}>{t}{t === issue.suggestedType ? ' (建议)' : ''}</option>)}
+                      </select>
+                    ) : issue.severity === 'error' ? '跳过' : '仍导入'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          </>
+        )}
+      </div>
+
+      <div className="mt-2 text-[10px] text-gray-500">
+        * 行号与表格软件一致 (含表头)。未映射为字段的列作为属性保存在实体或关系上；"忽略"列不导入。三元组表按源/目标类型自动创建实体，类型不同时更新已有实体。
+      </div>
+    </div>
+  );
+};
+
+export default TabularImportWizard;
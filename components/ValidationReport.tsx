@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { OntologySchema, ValidationIssue, ValidationIssueKind } from '../types';
+import { WrenchScrewdriverIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  schema: OntologySchema;
+  onSchemaChange: (schema: OntologySchema) => void;
+  onApplyFixes: (issues: ValidationIssue[]) => void;
+  onClose: () => void;
+}
+
+const KIND_LABEL: Record<ValidationIssueKind, { text: string, className: string }> = {
+  unknownEntityType: { text: '未知类型', className: 'bg-gray-100 text-gray-600' },
+  unknownRelation: { text: '未知关系', className: 'bg-gray-100 text-gray-600' },
+  nonCanonicalRelation: { text: '非规范关系', className: 'bg-blue-100 text-blue-700' },
+  inverseRelation: { text: '逆关系', className: 'bg-purple-100 text-purple-700' },
+  domainRange: { text: '类型约束', className: 'bg-amber-100 text-amber-700' },
+  danglingEndpoint: { text: '端点缺失', className: 'bg-red-100 text-red-700' },
+  duplicate: { text: '重复', className: 'bg-red-100 text-red-700' }
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ issues, schema, onSchemaChange, onApplyFixes, onClose }) => {
+  const [editingSchema, setEditingSchema] = useState(false);
+  const [schemaText, setSchemaText] = useState('');
+
+  const fixable = issues.filter(i => i.fix);
+  const counts = issues.reduce((acc, i) => ({ ...acc, [i.kind]: (acc[i.kind] || 0) + 1 }), {} as Record<string, number>);
+
+  const openSchemaEditor = () => {
+    setSchemaText(JSON.stringify(schema, null, 2));
+    setEditingSchema(true);
+  };
+
+  const saveSchema = () => {
+    try {
+      const parsed = JSON.parse(schemaText) as OntologySchema;
+      if (!Array.isArray(parsed.entityTypes) || !Array.isArray(parsed.relations)) throw new Error("需要 entityTypes 与 relations 数组");
+      onSchemaChange(parsed);
+      setEditingSchema(false);
+    } catch (e) {
+      alert(`模式格式错误: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-sm">模式校验报告 ({issues.length} 项问题)</h4>
+        <div className="flex gap-2">
+          <button onClick={editingSchema ? () => setEditingSchema(false) : openSchemaEditor} className="border px-2 py-1 rounded bg-white hover:bg-gray-50">{editingSchema ? '返回报告' : '编辑模式'}</button>
+          <button onClick={() => onApplyFixes(fixable)} disabled={fixable.length === 0} className="bg-emerald-600 text-white px-3 py-1 rounded font-bold hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-1">
+            <WrenchScrewdriverIcon className="w-3 h-3" /> 全部自动修复 ({fixable.length})
+          </button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {editingSchema ? (
+        <div className="flex-1 flex flex-col gap-2">
+          <div className="text-[10px] text-gray-500">entityTypes: 允许的实体类型；relations: 规范关系名、domain/range 类型、inverse 逆关系、aliases 同义词、symmetric 无方向。</div>
+          <textarea className="flex-1 w-full border rounded p-2 font-mono text-[11px] resize-none" value={schemaText} onChange={e => setSchemaText(e.target.value)} />
+          <button onClick={saveSchema} className="self-end bg-emerald-600 text-white px-3 py-1 rounded font-bold hover:bg-emerald-700">保存模式</button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {Object.entries(counts).map(([kind, n]) => (
+              <span key={kind} className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${KIND_LABEL[kind as ValidationIssueKind].className}`}>{KIND_LABEL[kind as ValidationIssueKind].text} {n}</span>
+            ))}
+          </div>
+          <div className="flex-1 overflow-auto">
+            {issues.length === 0 ? (
+              <div className="text-center text-emerald-600 py-8">未发现违反模式的数据</div>
+            ) : (
+              <table className="w-full text-left bg-white border">
+                <thead className="bg-gray-100">
+                  <tr><th className="p-1 w-20">类别</th><th className="p-1">问题</th><th className="p-1 w-56">修复</th></tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue, i) => (
+                    <tr key={i} className="border-b">
+                      <td className="p-1"><span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${KIND_LABEL[issue.kind].className}`}>{KIND_LABEL[issue.kind].text}</span></td>
+                      <td className="p-1">{issue.message}</td>
+                      <td className="p-1">
+                        {issue.fix ? (
+                          <button onClick={() => onApplyFixes([issue])} className="text-emerald-700 border border-emerald-200 rounded px-2 py-0.5 hover:bg-emerald-50">{issue.fix.label}</button>
+                        ) : <span className="text-gray-400">需手动处理</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
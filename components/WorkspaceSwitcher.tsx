@@ -0,0 +1,53 @@
+import React, { useRef } from 'react';
+import { WorkspaceMeta } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../services/projectStore';
+import { FolderPlusIcon, PencilSquareIcon, TrashIcon, ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceMeta[];
+  currentId: string | null;
+  saveStatus: SaveStatus;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const STATUS_LABEL: Record<SaveStatus, string> = {
+  idle: '',
+  saving: '保存中...',
+  saved: '已自动保存',
+  error: '保存失败'
+};
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({ workspaces, currentId, saveStatus, onSwitch, onCreate, onRename, onDelete, onExport, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <input type="file" ref={fileInputRef} className="hidden" accept={`${PROJECT_FILE_EXTENSION},.json`} onChange={handleFile} />
+      <select className="text-sm border rounded p-1 max-w-[160px]" value={currentId || ''} onChange={e => onSwitch(e.target.value)} disabled={!currentId} title="切换工作区">
+        {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+      </select>
+      <button onClick={onCreate} className="p-1 text-gray-500 hover:text-emerald-600" title="新建工作区"><FolderPlusIcon className="w-4 h-4" /></button>
+      <button onClick={onRename} disabled={!currentId} className="p-1 text-gray-500 hover:text-emerald-600 disabled:opacity-50" title="重命名工作区"><PencilSquareIcon className="w-4 h-4" /></button>
+      <button onClick={onDelete} disabled={workspaces.length < 2} className="p-1 text-gray-500 hover:text-red-500 disabled:opacity-50" title="删除工作区"><TrashIcon className="w-4 h-4" /></button>
+      <span className="w-px h-4 bg-gray-200 mx-1"></span>
+      <button onClick={onExport} className="p-1 text-gray-500 hover:text-emerald-600" title={`导出项目文件 (${PROJECT_FILE_EXTENSION})`}><ArrowDownTrayIcon className="w-4 h-4" /></button>
+      <button onClick={() => fileInputRef.current?.click()} className="p-1 text-gray-500 hover:text-emerald-600" title="导入项目文件为新工作区"><ArrowUpTrayIcon className="w-4 h-4" /></button>
+      <span className={`ml-1 ${saveStatus === 'error' ? 'text-red-500' : 'text-gray-400'}`}>{STATUS_LABEL[saveStatus]}</span>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
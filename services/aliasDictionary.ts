@@ -0,0 +1,108 @@
+import { AliasDictionary, RawEntity, RawRelation } from '../types';
+
+// Common variant spellings in classical and modern sources
+export const DEFAULT_ALIASES: AliasDictionary = {
+  "黄耆": "黄芪",
+  "芎藭": "川芎",
+  "芎䓖": "川芎",
+  "冠状动脉粥样硬化性心脏病": "冠心病",
+  "炙草": "炙甘草",
+  "国老": "甘草",
+  "田七": "三七",
+  "参三七": "三七",
+  "紫丹参": "丹参"
+};
+
+const cleanName = (name: string) => (name || '').normalize('NFKC').trim();
+
+// Follow variant -> canonical chains (A -> B -> C) with a guard against cycles
+export const resolveAlias = (name: string, aliases: AliasDictionary): string => {
+  let current = cleanName(name);
+  const visited = new Set<string>([current]);
+  while (aliases[current] !== undefined) {
+    const next = cleanName(aliases[current]);
+    if (!next || visited.has(next)) break;
+    visited.add(next);
+    current = next;
+  }
+  return current;
+};
+
+const addAlias = (list: string[] | undefined, alias: string, canonical: string) => {
+  if (!alias || alias === canonical || list?.includes(alias)) return list;
+  return [...(list || []), alias];
+};
+
+// Rename entities to their canonical names, keeping the original spelling as an alias.
+// Entities collapsing onto the same canonical name are merged (first type wins).
+export const applyAliasesToEntities = (entities: RawEntity[], aliases: AliasDictionary): RawEntity[] => {
+  const merged = new Map<string, RawEntity>();
+  entities.forEach(e => {
+    const canonical = resolveAlias(e.name, aliases);
+    const existing = merged.get(canonical);
+    if (!existing) {
+      merged.set(canonical, { ...e, name: canonical, aliases: addAlias(e.aliases, e.name, canonical) });
+    } else {
+      let list = existing.aliases;
+      [e.name, ...(e.aliases || [])].forEach(a => { list = addAlias(list, a, canonical); });
+      existing.aliases = list;
+    }
+  });
+  return Array.from(merged.values());
+};
+
+// Rewrite relation endpoints and drop triples that become identical
+export const applyAliasesToRelations = (relations: RawRelation[], aliases: AliasDictionary): RawRelation[] => {
+  const seen = new Set<string>();
+  const result: RawRelation[] = [];
+  relations.forEach(r => {
+    const next = { ...r, source: resolveAlias(r.source, aliases), target: resolveAlias(r.target, aliases) };
+    const key = `${next.source}|${next.relation}|${next.target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.push(next);
+  });
+  return result;
+};
+
+// Stored spellings among `names` that resolve to `canonical`, in order of first appearance
+export const spellingsOf = (canonical: string, names: string[], aliases: AliasDictionary): string[] =>
+  Array.from(new Set(names.filter(n => resolveAlias(n, aliases) === canonical)));
+
+export const applyAliases = (
+  data: { entities: RawEntity[], relations: RawRelation[] },
+  aliases: AliasDictionary | undefined
+): { entities: RawEntity[], relations: RawRelation[] } => {
+  if (!aliases || Object.keys(aliases).length === 0) return data;
+  return {
+    entities: applyAliasesToEntities(data.entities, aliases),
+    relations: applyAliasesToRelations(data.relations, aliases)
+  };
+};
+
+// CSV: "标准名,别名1,别名2,..." per row (header skipped, same convention as the entity CSV).
+// Aliases inside one cell may also be separated by 、 | ; or ；.
+export const parseAliasCsv = (text: string): AliasDictionary => {
+  const dict: AliasDictionary = {};
+  const lines = text.replace(/^\uFEFF/, '').trim().split('\n');
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const [canonical, ...rest] = line.split(/[,，\t]/).map(cleanName);
+    if (!canonical) continue;
+    rest.flatMap(cell => cell.split(/[、|;；]/)).map(cleanName).forEach(alias => {
+      if (alias && alias !== canonical) dict[alias] = canonical;
+    });
+  }
+  return dict;
+};
+
+export const aliasDictionaryToCsv = (aliases: AliasDictionary): string => {
+  const byCanonical = new Map<string, string[]>();
+  Object.entries(aliases).forEach(([alias, canonical]) => {
+    if (!byCanonical.has(canonical)) byCanonical.set(canonical, []);
+    byCanonical.get(canonical)?.push(alias);
+  });
+  const rows = Array.from(byCanonical.entries()).map(([canonical, list]) => [canonical, ...list].join(','));
+  return ['标准名,别名', ...rows].join('\n');
+};
@@ -0,0 +1,96 @@
+import * as XLSX from 'xlsx';
+import { GraphData, GraphNode, GraphLink, AssociationRuleResult, AlgorithmType, NodeMetricKey, CentralityOptions } from '../types';
+import { calculateNodeMetrics, NODE_METRIC_LABEL } from './graphAnalysis';
+
+export interface ResultTable {
+  name: string; // Sheet name, also used as the CSV file suffix
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+const endpointId = (end: GraphLink['source']) => typeof end === 'object' ? (end as GraphNode).id : String(end);
+
+const round = (value: number | undefined) => value === undefined ? '' : Number(value.toFixed(6));
+
+const METRIC_KEYS = Object.keys(NODE_METRIC_LABEL) as NodeMetricKey[];
+
+// Every node of the analysis graph with all node metrics (recomputed on the exported graph) and any other stored results
+const nodeMetricTable = (graph: GraphData, centrality?: CentralityOptions): ResultTable => {
+  const metrics = calculateNodeMetrics(graph.nodes, graph.links, centrality);
+  const extraMetrics = Array.from(new Set(graph.nodes.flatMap(n => Object.keys(n.metrics || {}))))
+    .filter(k => !(METRIC_KEYS as string[]).includes(k) && graph.nodes.some(n => n.metrics?.[k] !== undefined));
+  const clusterKeys = (['kmeans', 'hierarchical'] as const).filter(k => graph.nodes.some(n => n.clusters?.[k] !== undefined));
+
+  return {
+    name: '节点指标',
+    columns: ['节点', '分组', ...METRIC_KEYS.map(k => NODE_METRIC_LABEL[k]), ...extraMetrics, ...clusterKeys.map(k => `${k} 聚类`)],
+    rows: graph.nodes
+      .map(n => [
+        n.id, n.group, ...METRIC_KEYS.map(k => round(metrics[n.id][k])),
+        ...extraMetrics.map(k => round(n.metrics?.[k])),
+        ...clusterKeys.map(k => n.clusters?.[k] ?? '')
+      ])
+      .sort((a, b) => Number(b[2]) - Number(a[2]))
+  };
+};
+
+const membershipTable = (name: string, graph: GraphData, clusterOf: (n: GraphNode) => number | undefined): ResultTable | null => {
+  const members = new Map<number, string[]>();
+  graph.nodes.forEach(n => {
+    const c = clusterOf(n);
+    if (c === undefined) return;
+    members.set(c, [...(members.get(c) || []), n.id]);
+  });
+  if (members.size === 0) return null;
+  return {
+    name,
+    columns: ['聚类', '规模', '成员'],
+    rows: Array.from(members).sort((a, b) => a[0] - b[0]).map(([c, ids]) => [c, ids.length, ids.join('、')])
+  };
+};
+
+// Tables for the active algorithm; the graph keeps only rule metrics, so the mined rules are passed separately
+export const buildResultTables = (algorithm: AlgorithmType, graph: GraphData, rules: AssociationRuleResult[], centrality?: CentralityOptions): ResultTable[] => {
+  const tables: (ResultTable | null)[] = [];
+
+  if (algorithm === AlgorithmType.ASSOCIATION && rules.length > 0) {
+    tables.push({
+      name: '关联规则',
+      columns: ['前项', '后项', '支持度', '置信度', '提升度', '共现次数'],
+      rows: rules.map(r => [r.source, r.target, round(r.support), round(r.confidence), round(r.lift), r.cooccur])
+    });
+  }
+  if (graph.nodes.length > 0) tables.push(nodeMetricTable(graph, centrality));
+  if (algorithm === AlgorithmType.COMMUNITY) tables.push(membershipTable('社团成员', graph, n => n.metrics?.community));
+  tables.push(membershipTable('K-means 聚类', graph, n => n.clusters?.kmeans));
+  tables.push(membershipTable('层次聚类', graph, n => n.clusters?.hierarchical));
+
+  const weighted = graph.links.filter(l => l.weight !== undefined);
+  if (weighted.length > 0) {
+    tables.push({
+      name: '共现边表',
+      columns: ['节点A', '节点B', '共现次数'],
+      rows: weighted.map(l => [endpointId(l.source), endpointId(l.target), l.weight!]).sort((a, b) => Number(b[2]) - Number(a[2]))
+    });
+  }
+  return tables.filter((t): t is ResultTable => t !== null);
+};
+
+// --- Writers ---
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// UTF-8 with BOM so Excel opens the Chinese headers correctly
+export const toCsv = (table: ResultTable): string =>
+  '\uFEFF' + [table.columns, ...table.rows].map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+export const toXlsxWorkbook = (tables: ResultTable[]): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  tables.forEach(t => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([t.columns, ...t.rows]), t.name.slice(0, 31)));
+  return workbook;
+};
+
+export const downloadXlsx = (tables: ResultTable[], fileName: string) => XLSX.writeFile(toXlsxWorkbook(tables), fileName);
@@ -0,0 +1,511 @@
+import * as d3 from 'd3';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { GraphData, GraphNode, RawEntity, RawRelation, AliasDictionary, AnalysisAlgoConfig, DendrogramNode, ClusterMethod, ReportSectionId, AssociationRuleResult, NodeMetricKey, CommunityDetectionResult } from '../types';
+import { ResultTable } from './analysisExport';
+import { generateCooccurrenceGraph, runAlgorithm, calculateNodeMetrics, calculateNetworkStatistics, PATH_WEIGHTING_LABEL, cutDendrogram, leavesOf } from './graphAnalysis';
+import { DISTANCE_LABEL, VECTOR_BASIS_LABEL } from './vectorDistance';
+import { applyAliases } from './aliasDictionary';
+import { CJK_FONT_STACK } from './figureExport';
+import { loadBundledFont, subsetBundledFont, toBase64 } from './cjkFont';
+
+export const REPORT_SECTIONS: { id: ReportSectionId, title: string }[] = [
+  { id: 'dataset', title: '数据集概况' },
+  { id: 'network', title: '共现网络统计' },
+  { id: 'centrality', title: '中心性分析' },
+  { id: 'community', title: '社团分析' },
+  { id: 'association', title: '关联规则' },
+  { id: 'hierarchical', title: '层次聚类' }
+];
+
+export interface ReportFigure {
+  caption: string;
+  svg: string;
+}
+
+export interface ReportSection {
+  id: ReportSectionId;
+  title: string;
+  parameters: [string, string | number][];
+  findings: string[];
+  tables: ResultTable[];
+  figure?: ReportFigure;
+}
+
+export interface AnalysisReport {
+  title: string;
+  generatedAt: string;
+  sections: ReportSection[];
+}
+
+export interface ReportInput {
+  title: string;
+  entities: RawEntity[];
+  relations: RawRelation[];
+  aliases: AliasDictionary;
+  config: AnalysisAlgoConfig;
+}
+
+const METHOD_LABEL: Record<ClusterMethod, string> = { single: '最短距离法', complete: '最长距离法', average: '类平均法', centroid: '重心法', median: '中间距离法', ward: 'Ward 离差平方和法' };
+
+// Rankings and rule lists are cut here; the result table export has the complete lists
+const TOP_ROWS = 20;
+
+const endpointId = (end: GraphData['links'][number]['source']) => typeof end === 'object' ? (end as GraphNode).id : String(end);
+const fixed = (value: number, digits = 4) => Number(value.toFixed(digits));
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// --- Statistics ---
+
+const countBy = <T,>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  items.forEach(i => counts.set(key(i), (counts.get(key(i)) || 0) + 1));
+  return Array.from(counts).sort((a, b) => b[1] - a[1]);
+};
+
+// --- Figures ---
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const FIGURE_WIDTH = 640;
+const LABELLED_NODES = 40;
+
+// Static force layout run to completion, so the figure does not depend on what is on screen
+const networkFigure = (graph: GraphData, colorOf: (node: GraphNode) => string): string => {
+  const height = 480, margin = 30;
+  const nodes = graph.nodes.map(n => ({ ...n }));
+  const links = graph.links.map(l => ({ source: endpointId(l.source), target: endpointId(l.target), weight: l.weight ?? 1 }));
+  const degree = new Map<string, number>();
+  links.forEach(l => [l.source, l.target].forEach(id => degree.set(id, (degree.get(id) || 0) + 1)));
+
+  d3.forceSimulation(nodes)
+    .force('link', d3.forceLink<GraphNode, { source: string, target: string }>(links.map(l => ({ ...l }))).id(d => d.id).distance(40))
+    .force('charge', d3.forceManyBody().strength(-60))
+    .force('center', d3.forceCenter(0, 0))
+    .force('collide', d3.forceCollide(8))
+    .stop()
+    .tick(300);
+
+  const xs = d3.extent(nodes, d => d.x || 0) as [number, number], ys = d3.extent(nodes, d => d.y || 0) as [number, number];
+  const x = d3.scaleLinear().domain(xs[0] === xs[1] ? [xs[0] - 1, xs[0] + 1] : xs).range([margin, FIGURE_WIDTH - margin]);
+  const y = d3.scaleLinear().domain(ys[0] === ys[1] ? [ys[0] - 1, ys[0] + 1] : ys).range([margin, height - margin]);
+  const maxDegree = Math.max(1, ...degree.values());
+  const maxWeight = Math.max(1, ...links.map(l => l.weight));
+  const radius = (id: string) => 3 + 7 * Math.sqrt((degree.get(id) || 0) / maxDegree);
+  const position = new Map(nodes.map(n => [n.id, [x(n.x || 0), y(n.y || 0)]]));
+  const labelled = new Set([...nodes].sort((a, b) => (degree.get(b.id) || 0) - (degree.get(a.id) || 0)).slice(0, LABELLED_NODES).map(n => n.id));
+
+  const edges = links.map(l => {
+    const [x1, y1] = position.get(l.source) || [0, 0], [x2, y2] = position.get(l.target) || [0, 0];
+    return `<line x1="${x1.toFixed(1)}" y1="${y1.toFixed(1)}" x2="${x2.toFixed(1)}" y2="${y2.toFixed(1)}" stroke="#9ca3af" stroke-opacity="0.6" stroke-width="${(0.5 + 2.5 * l.weight / maxWeight).toFixed(2)}"/>`;
+  });
+  const circles = nodes.map(n => {
+    const [cx, cy] = position.get(n.id)!;
+    const label = labelled.has(n.id) ? `<text x="${(cx + radius(n.id) + 2).toFixed(1)}" y="${(cy + 3).toFixed(1)}" font-size="9" fill="#374151">${escapeXml(n.id)}</text>` : '';
+    return `<circle cx="${cx.toFixed(1)}" cy="${cy.toFixed(1)}" r="${radius(n.id).toFixed(1)}" fill="${colorOf(n)}" stroke="#ffffff" stroke-width="1"/>${label}`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${FIGURE_WIDTH} ${height}" width="${FIGURE_WIDTH}" height="${height}" style="font-family: ${escapeXml(CJK_FONT_STACK)}"><rect width="100%" height="100%" fill="#ffffff"/>${edges.join('')}${circles.join('')}</svg>`;
+};
+
+// Horizontal dendrogram with merge distance on the x axis
+const dendrogramFigure = (tree: DendrogramNode, cutHeight: number): string => {
+  const leafCount = leavesOf(tree).length;
+  const margin = { top: 20, right: 110, bottom: 30, left: 20 };
+  const height = Math.max(160, leafCount * 14) + margin.top + margin.bottom;
+  const root = d3.hierarchy(tree);
+  d3.cluster<DendrogramNode>().size([height - margin.top - margin.bottom, 1])(root);
+  const maxDistance = Math.max(tree.distance || 0, 1e-9);
+  const x = d3.scaleLinear().domain([maxDistance, 0]).range([margin.left, FIGURE_WIDTH - margin.right]);
+  const px = (d: d3.HierarchyNode<DendrogramNode>) => x(d.children ? d.data.distance || 0 : 0);
+  const py = (d: d3.HierarchyNode<DendrogramNode>) => (d.x || 0) + margin.top;
+
+  const elbows = root.links().map(l =>
+    `<path d="M${px(l.source).toFixed(1)},${py(l.source).toFixed(1)} V${py(l.target).toFixed(1)} H${px(l.target).toFixed(1)}" fill="none" stroke="#6b7280" stroke-width="1"/>`);
+  const labels = root.leaves().map(d => `<text x="${(px(d) + 4).toFixed(1)}" y="${(py(d) + 3).toFixed(1)}" font-size="10" fill="#374151">${escapeXml(d.data.name)}</text>`);
+  const axisY = height - margin.bottom + 10;
+  const ticks = x.ticks(5).map(t => `<line x1="${x(t).toFixed(1)}" x2="${x(t).toFixed(1)}" y1="${axisY}" y2="${axisY + 4}" stroke="#6b7280"/><text x="${x(t).toFixed(1)}" y="${axisY + 14}" font-size="9" text-anchor="middle" fill="#6b7280">${fixed(t, 2)}</text>`);
+  const cut = cutHeight > 0 ? `<line x1="${x(cutHeight).toFixed(1)}" x2="${x(cutHeight).toFixed(1)}" y1="${margin.top}" y2="${axisY}" stroke="#dc2626" stroke-dasharray="4 3"/>` : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${FIGURE_WIDTH} ${height}" width="${FIGURE_WIDTH}" height="${height}" style="font-family: ${escapeXml(CJK_FONT_STACK)}"><rect width="100%" height="100%" fill="#ffffff"/>${elbows.join('')}${labels.join('')}<line x1="${margin.left}" x2="${FIGURE_WIDTH - margin.right}" y1="${axisY}" y2="${axisY}" stroke="#6b7280"/>${ticks.join('')}${cut}</svg>`;
+};
+
+// --- Sections ---
+
+const datasetSection = ({ entities, relations, aliases }: ReportInput): ReportSection => {
+  const resolved = applyAliases({ entities, relations }, aliases);
+  const names = new Set(resolved.entities.map(e => e.name));
+  const dangling = new Set(resolved.relations.flatMap(r => [r.source, r.target]).filter(n => !names.has(n)));
+  return {
+    id: 'dataset',
+    title: '数据集概况',
+    parameters: [['别名词典条目', Object.keys(aliases).length]],
+    findings: [
+      `经别名归一后共 ${resolved.entities.length} 个实体 (原始 ${entities.length} 个)、${resolved.relations.length} 条关系，涉及 ${new Set(resolved.entities.map(e => e.type)).size} 种实体类型与 ${new Set(resolved.relations.map(r => r.relation)).size} 种关系类型。`,
+      ...(dangling.size > 0 ? [`${dangling.size} 个关系端点没有对应的实体记录，未计入按类型的分析。`] : [])
+    ],
+    tables: [
+      { name: '实体类型分布', columns: ['实体类型', '数量', '占比'], rows: countBy(resolved.entities, e => e.type).map(([t, c]) => [t, c, percent(c / resolved.entities.length)]) },
+      { name: '关系类型分布', columns: ['关系类型', '数量', '占比'], rows: countBy(resolved.relations, r => r.relation).map(([t, c]) => [t, c, percent(c / resolved.relations.length)]) }
+    ]
+  };
+};
+
+const cooccurrenceGraph = ({ entities, relations, aliases, config }: ReportInput): GraphData => {
+  const graph = generateCooccurrenceGraph(entities, relations, config.complexNetwork.containerType, config.complexNetwork.itemType, aliases);
+  const threshold = config.backbone.threshold;
+  if (threshold <= 0) return graph;
+  const links = graph.links.filter(l => (l.weight || 0) >= threshold);
+  return { nodes: graph.nodes, links, metadata: calculateNetworkStatistics(graph.nodes, links) };
+};
+
+const networkParameters = (config: AnalysisAlgoConfig): [string, string | number][] => [
+  ['共现单元 (容器类型)', config.complexNetwork.containerType],
+  ['网络节点 (实体类型)', config.complexNetwork.itemType],
+  ['骨干网络阈值 (最小共现次数)', config.backbone.threshold > 0 ? config.backbone.threshold : '不过滤']
+];
+
+const networkSection = (input: ReportInput, graph: GraphData): ReportSection => {
+  const stats = graph.metadata || calculateNetworkStatistics(graph.nodes, graph.links);
+  const nodes = stats.nodeCount || 0;
+  const averageStrength = nodes > 0 ? 2 * graph.links.reduce((sum, l) => sum + (l.weight ?? 1), 0) / nodes : 0;
+  const strongest = [...graph.links].sort((a, b) => (b.weight || 0) - (a.weight || 0)).slice(0, TOP_ROWS);
+  return {
+    id: 'network',
+    title: '共现网络统计',
+    parameters: networkParameters(input.config),
+    findings: [
+      `同一${input.config.complexNetwork.containerType}下的${input.config.complexNetwork.itemType}两两共现连边，边权为共现次数。`,
+      nodes === 0 ? '当前参数下没有形成共现网络。' : `网络含 ${nodes} 个节点、${stats.edgeCount} 条边，由 ${stats.componentCount} 个连通分量组成，最大分量覆盖 ${percent((stats.largestComponentSize || 0) / nodes)} 的节点。`
+    ],
+    tables: [
+      {
+        name: '网络整体指标',
+        columns: ['指标', '数值'],
+        rows: [
+          ['节点数', nodes], ['边数', stats.edgeCount || 0], ['网络密度', fixed(stats.density || 0)],
+          ['平均度', fixed(stats.avgDegree || 0, 2)], ['平均加权度', fixed(averageStrength, 2)],
+          ['全局聚类系数', fixed(stats.globalClusteringCoeff || 0)], ['平均聚类系数', fixed(stats.avgClusteringCoeff || 0)],
+          ['度同配系数', stats.assortativity === undefined ? '—' : fixed(stats.assortativity)],
+          ['连通分量数', stats.componentCount || 0], ['最大连通分量节点数', stats.largestComponentSize || 0],
+          ['平均最短路径长度', fixed(stats.avgPathLength || 0, 3)], ['网络直径', stats.diameter || 0]
+        ]
+      },
+      ...(strongest.length > 0 ? [{
+        name: `共现频次最高的 ${strongest.length} 对`,
+        columns: ['节点A', '节点B', '共现次数'],
+        rows: strongest.map(l => [endpointId(l.source), endpointId(l.target), l.weight ?? 1])
+      }] : [])
+    ],
+    figure: nodes > 0 ? { caption: `${input.config.complexNetwork.itemType}共现网络 (节点大小表示度，边宽表示共现次数)`, svg: networkFigure(graph, () => '#10b981') } : undefined
+  };
+};
+
+const centralitySection = (input: ReportInput, graph: GraphData): ReportSection => {
+  const { weighting, normalized } = input.config.centrality;
+  const metrics = calculateNodeMetrics(graph.nodes, graph.links, input.config.centrality);
+  const rankBy = (key: NodeMetricKey) => [...graph.nodes].sort((a, b) => metrics[b.id][key] - metrics[a.id][key]).map(n => n.id);
+  const top = rankBy('degree').slice(0, TOP_ROWS);
+  return {
+    id: 'centrality',
+    title: '中心性分析',
+    parameters: [...networkParameters(input.config), ['排名显示', `前 ${TOP_ROWS} 位`], ['最短路径长度', PATH_WEIGHTING_LABEL[weighting]], ['中心性标准化', normalized ? '是' : '否'], ['PageRank 阻尼系数', 0.85]],
+    findings: [
+      `度中心性为相连节点数，加权度为连边共现次数之和；中介中心性按 Brandes 算法计算节点位于其他节点对最短路径上的次数${normalized ? ' (除以 (n-1)(n-2)/2 标准化到 [0, 1])' : ''}；接近中心性${normalized ? '为可达节点数与到其距离之和的比值，并乘以可达节点占比 (Wasserman-Faust)' : '为到各可达节点距离之和的倒数'}；最短路径${weighting === 'none' ? '按边数计算' : `以 ${PATH_WEIGHTING_LABEL[weighting]} 为边长，共现越多距离越短`}；PageRank 与特征向量中心性按共现次数加权，特征向量中心性以最大值归一为 1。`,
+      ...(top.length > 0 ? [`度中心性最高的节点为 ${top.slice(0, 5).join('、')}；中介中心性最高的为 ${rankBy('betweenness').slice(0, 5).join('、')}；PageRank 最高的为 ${rankBy('pagerank').slice(0, 5).join('、')}。`] : ['当前参数下没有形成共现网络。'])
+    ],
+    tables: top.length > 0 ? [{
+      name: '中心性排名 (按度排序)',
+      columns: ['排名', '节点', '度', '加权度', '中介中心性', '接近中心性', 'PageRank', '特征向量中心性', 'k-核'],
+      rows: top.map((id, i) => {
+        const m = metrics[id];
+        return [i + 1, id, m.degree, m.strength, fixed(m.betweenness), fixed(m.closeness), fixed(m.pagerank), fixed(m.eigenvector), m.kCore];
+      })
+    }] : []
+  };
+};
+
+const communitySection = ({ entities, relations, aliases, config }: ReportInput): ReportSection => {
+  const { frontType, backType, network, method, resolution, seed } = config.community;
+  const graph = runAlgorithm('COMMUNITY', { nodes: [], links: [] }, config.community, { entities, relations, aliases }) as GraphData & { communities: CommunityDetectionResult };
+  const { communities, modularity } = graph.communities;
+  const groupOf = new Map(graph.nodes.map(n => [n.id, n.group]));
+  const singletons = communities.filter(c => c.size === 1).length;
+  const networkName = network === 'bipartite' ? `${frontType}-${backType}二部网络` : `${backType}共现网络 (以${frontType}为共现单位)`;
+  const color = d3.scaleOrdinal<number, string>(d3.schemeTableau10);
+  return {
+    id: 'community',
+    title: '社团分析',
+    parameters: [
+      ['前端实体类型', frontType], ['后端实体类型', backType],
+      ['网络', network === 'bipartite' ? '二部网络 (Barber 二部模块度)' : '加权共现网络 (Newman 模块度)'],
+      ['算法', method === 'leiden' ? 'Leiden' : 'Louvain'], ['分辨率 γ', resolution], ['随机种子', seed]
+    ],
+    findings: graph.nodes.length === 0 ? ['当前参数下没有形成可划分的网络。'] : [
+      `${networkName}含 ${graph.nodes.length} 个节点、${graph.links.length} 条边，划分为 ${communities.length} 个社团，模块度 Q = ${fixed(modularity, 3)} (按分辨率 1 计算)。`,
+      `最大的社团含 ${communities[0].size} 个节点，占 ${fixed(communities[0].size / graph.nodes.length * 100, 1)}%${singletons > 0 ? `；${singletons} 个节点自成社团` : ''}。`,
+      method === 'leiden'
+        ? 'Leiden 算法在局部移动后对每个社团进行细化，保证所得社团内部连通；使用相同随机种子可得到相同结果。'
+        : 'Louvain 算法交替进行局部移动与网络聚合直至模块度不再提高；使用相同随机种子可得到相同结果。'
+    ],
+    tables: communities.length > 0 ? [{
+      name: '社团成员 (按加权度排序)',
+      columns: network === 'bipartite' ? ['社团', '规模', frontType, backType] : ['社团', '规模', '成员'],
+      rows: communities.map(c => network === 'bipartite'
+        ? [c.id + 1, c.size, c.members.filter(id => groupOf.get(id) === frontType).join('、'), c.members.filter(id => groupOf.get(id) === backType).join('、')]
+        : [c.id + 1, c.size, c.members.join('、')])
+    }] : [],
+    figure: graph.nodes.length > 0 ? { caption: `${networkName}社团划分 (颜色表示社团)`, svg: networkFigure(graph, n => color(n.metrics?.community ?? 0)) } : undefined
+  };
+};
+
+const associationSection = ({ entities, relations, aliases, config }: ReportInput): ReportSection => {
+  const { frontType, backType, minSupport, minConfidence } = config.association;
+  const { rules } = runAlgorithm('ASSOCIATION', { nodes: [], links: [] }, config.association, { entities, relations, aliases }) as { rules: AssociationRuleResult[] };
+  const top = [...rules].sort((a, b) => b.lift - a.lift || b.confidence - a.confidence).slice(0, TOP_ROWS);
+  const strong = rules.filter(r => r.lift > 1).length;
+  return {
+    id: 'association',
+    title: '关联规则',
+    parameters: [['前项实体类型', frontType], ['后项实体类型', backType], ['最小支持度', minSupport], ['最小置信度', minConfidence]],
+    findings: rules.length === 0 ? ['当前阈值下没有满足条件的规则。'] : [
+      `共挖掘出 ${rules.length} 条 ${frontType} → ${backType} 规则，其中 ${strong} 条提升度大于 1 (正相关)。`,
+      `表中按提升度列出前 ${top.length} 条。`
+    ],
+    tables: top.length > 0 ? [{
+      name: '关联规则 (按提升度排序)',
+      columns: ['前项', '后项', '支持度', '置信度', '提升度', '共现次数'],
+      rows: top.map(r => [r.source, r.target, fixed(r.support), fixed(r.confidence), fixed(r.lift, 3), r.cooccur])
+    }] : []
+  };
+};
+
+const hierarchicalSection = ({ entities, relations, aliases, config }: ReportInput): ReportSection => {
+  const { containerType, itemType, distanceType, basis, method, k, cutMode, cutDistance } = config.hierarchical;
+  const graph = generateCooccurrenceGraph(entities, relations, containerType, itemType, aliases);
+  const parameters: [string, string | number][] = [
+    ['共现单元 (容器类型)', containerType], ['聚类对象 (实体类型)', itemType],
+    ['特征向量', VECTOR_BASIS_LABEL[basis]], ['距离类型', DISTANCE_LABEL[distanceType]], ['聚类方法', METHOD_LABEL[method]], cutMode === 'k' ? ['聚类数 k', k] : ['截断距离', cutDistance]
+  ];
+  if (graph.nodes.length < 2) return { id: 'hierarchical', title: '层次聚类', parameters, findings: ['可聚类的实体少于 2 个。'], tables: [] };
+
+  const { tree, cophenetic } = runAlgorithm('HIERARCHICAL', graph, config.hierarchical, { entities, relations, aliases }) as { tree: DendrogramNode, cophenetic: number };
+  const { height, clusters } = cutDendrogram(tree, config.hierarchical);
+  return {
+    id: 'hierarchical',
+    title: '层次聚类',
+    parameters,
+    findings: [
+      `以每个${itemType}${basis === 'membership' ? `在各${containerType}中是否出现 (0/1)` : `与其他${itemType}的共现次数`}构成特征向量，按${DISTANCE_LABEL[distanceType]}与${METHOD_LABEL[method]}逐步合并 ${graph.nodes.length} 个${itemType}。`,
+      `在合并距离 ${fixed(height, 3)} 处截断树状图，得到 ${clusters.length} 类 (图中虚线)。`,
+      ...(Number.isFinite(cophenetic) ? [`共表相关系数为 ${fixed(cophenetic, 3)}，${cophenetic >= 0.8 ? '树状图较好地保留了原始距离关系' : '树状图对原始距离关系的保留有限，解读聚类层次时需谨慎'}。`] : [])
+    ],
+    tables: [{
+      name: `聚类结果 (k = ${clusters.length})`,
+      columns: ['类别', '规模', '成员'],
+      rows: clusters.map((c, i) => [i + 1, c.length, c.join('、')])
+    }],
+    figure: { caption: `${itemType}层次聚类树状图 (${DISTANCE_LABEL[distanceType]}，${METHOD_LABEL[method]})`, svg: dendrogramFigure(tree, height) }
+  };
+};
+
+export const buildAnalysisReport = (input: ReportInput, sections: ReportSectionId[]): AnalysisReport => {
+  const wanted = new Set(sections);
+  const network = wanted.has('network') || wanted.has('centrality') ? cooccurrenceGraph(input) : null;
+  const builders: Record<ReportSectionId, () => ReportSection> = {
+    dataset: () => datasetSection(input),
+    network: () => networkSection(input, network!),
+    centrality: () => centralitySection(input, network!),
+    community: () => communitySection(input),
+    association: () => associationSection(input),
+    hierarchical: () => hierarchicalSection(input)
+  };
+  return {
+    title: input.title,
+    generatedAt: new Date().toLocaleString(),
+    sections: REPORT_SECTIONS.filter(s => wanted.has(s.id)).map(s => builders[s.id]())
+  };
+};
+
+// --- Markdown ---
+
+const markdownCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+const markdownTable = (columns: string[], rows: (string | number)[][]) =>
+  [columns, columns.map(() => '---'), ...rows].map(r => `| ${r.map(markdownCell).join(' | ')} |`).join('\n');
+
+const svgDataUrl = (svg: string) => 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+
+export const toMarkdown = (report: AnalysisReport): string => {
+  const lines = [`# ${report.title}`, '', `生成时间: ${report.generatedAt}`, ''];
+  report.sections.forEach((s, i) => {
+    lines.push(`## ${i + 1}. ${s.title}`, '', '**参数**', '', markdownTable(['参数', '取值'], s.parameters), '');
+    s.findings.forEach(f => lines.push(f, ''));
+    s.tables.forEach(t => lines.push(`**${t.name}**`, '', markdownTable(t.columns, t.rows), ''));
+    if (s.figure) lines.push(`![${s.figure.caption}](${svgDataUrl(s.figure.svg)})`, '', `*${s.figure.caption}*`, '');
+  });
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+const reportCss = (scope: string) => `
+${scope} h1 { font-size: 22px; border-bottom: 2px solid #10b981; padding-bottom: 6px; }
+${scope} h2 { font-size: 17px; margin-top: 1.6em; color: #065f46; }
+${scope} p { font-size: 13px; margin: 0.4em 0; }
+${scope} .meta { color: #6b7280; font-size: 12px; }
+${scope} table { border-collapse: collapse; width: 100%; font-size: 12px; margin: 0.6em 0 1em; }
+${scope} caption { text-align: left; font-weight: bold; margin-bottom: 4px; }
+${scope} th, ${scope} td { border: 1px solid #d1d5db; padding: 3px 6px; text-align: left; vertical-align: top; }
+${scope} th { background: #f3f4f6; }
+${scope} table.parameters { width: auto; }
+${scope} figure { margin: 1em 0; text-align: center; }
+${scope} figure svg { max-width: 100%; height: auto; }
+${scope} figcaption { font-size: 12px; color: #4b5563; }
+`;
+
+const escapeHtml = escapeXml;
+
+const htmlTable = (caption: string, columns: string[], rows: (string | number)[][], className = '') =>
+  `<table${className ? ` class="${className}"` : ''}><caption>${escapeHtml(caption)}</caption><thead><tr>${columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows.map(r => `<tr>${r.map(v => `<td>${escapeHtml(String(v))}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const reportBlocks = (report: AnalysisReport): string[] => {
+  const blocks = [`<h1>${escapeHtml(report.title)}</h1><p class="meta">生成时间: ${escapeHtml(report.generatedAt)}</p>`];
+  report.sections.forEach((s, i) => {
+    blocks.push(
+      `<h2>${i + 1}. ${escapeHtml(s.title)}</h2>` +
+      htmlTable('参数', ['参数', '取值'], s.parameters, 'parameters') +
+      s.findings.map(f => `<p>${escapeHtml(f)}</p>`).join('')
+    );
+    s.tables.forEach(t => blocks.push(htmlTable(t.name, t.columns, t.rows)));
+    if (s.figure) blocks.push(`<figure>${s.figure.svg}<figcaption>${escapeHtml(s.figure.caption)}</figcaption></figure>`);
+  });
+  return blocks;
+};
+
+export const toHtml = (report: AnalysisReport): string =>
+  `<!DOCTYPE html>\n<html lang="zh-CN">\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(report.title)}</title>\n<style>\nbody { font-family: ${CJK_FONT_STACK}; color: #1f2937; max-width: 880px; margin: 2em auto; padding: 0 1em; line-height: 1.6; }${reportCss('body')}</style>\n</head>\n<body>\n${reportBlocks(report).join('\n')}\n</body>\n</html>\n`;
+
+// --- PDF ---
+
+const PAGE_MARGIN = 15; // mm
+const BLOCK_GAP = 3; // mm
+const PT = 25.4 / 72; // mm per point
+const PX = 25.4 / 96; // mm per CSS pixel
+const FIGURE_SCALE = 2; // Raster pixels per CSS pixel
+const PDF_FONT = 'NotoSansSC';
+const TEXT_COLOR: [number, number, number] = [31, 41, 55];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const HEADING_COLOR: [number, number, number] = [6, 95, 70];
+
+type PdfWithTables = jsPDF & { lastAutoTable: { finalY: number } };
+
+// Figure SVG as a PNG, with the glyphs it uses embedded so the raster does not depend on installed fonts
+const figureImage = async (svg: string): Promise<{ dataUrl: string, width: number, height: number }> => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const font = await subsetBundledFont(Array.from(root.querySelectorAll('text'), t => t.textContent || '').join(''));
+  const style = doc.createElementNS('http://www.w3.org/2000/svg', 'style');
+  style.textContent = `@font-face { font-family: "${font.name}"; src: url(${font.dataUrl}); } text { font-family: "${font.name}", ${CJK_FONT_STACK}; }`;
+  root.insertBefore(style, root.firstChild);
+  const width = Number(root.getAttribute('width')), height = Number(root.getAttribute('height'));
+
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * FIGURE_SCALE;
+    canvas.height = height * FIGURE_SCALE;
+    const image = new Image();
+    image.onload = () => {
+      const context = canvas.getContext('2d');
+      if (!context) { reject(new Error('浏览器不支持 Canvas')); return; }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/png'), width, height });
+    };
+    image.onerror = () => reject(new Error('图表渲染失败'));
+    image.src = svgDataUrl(new XMLSerializer().serializeToString(doc));
+  });
+};
+
+// Headings, findings and tables are written as text in the bundled CJK font, which jsPDF embeds as a subset
+// of the glyphs used, so the PDF can be searched and copied from; only the figures are images.
+export const toPdf = async (report: AnalysisReport): Promise<jsPDF> => {
+  const pdf = new jsPDF('p', 'mm', 'a4') as PdfWithTables;
+  pdf.addFileToVFS('NotoSansSC-Regular.ttf', toBase64(await loadBundledFont()));
+  pdf.addFont('NotoSansSC-Regular.ttf', PDF_FONT, 'normal');
+  pdf.setFont(PDF_FONT, 'normal');
+
+  const pageWidth = pdf.internal.pageSize.getWidth(), pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2, contentHeight = pageHeight - PAGE_MARGIN * 2;
+  let cursor = PAGE_MARGIN;
+
+  const reserve = (height: number) => {
+    if (cursor + height > pageHeight - PAGE_MARGIN && cursor > PAGE_MARGIN) {
+      pdf.addPage();
+      cursor = PAGE_MARGIN;
+    }
+  };
+
+  const paragraph = (text: string, size: number, color = TEXT_COLOR, align: 'left' | 'center' = 'left') => {
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+    const lineHeight = size * PT * 1.5;
+    (pdf.splitTextToSize(text, contentWidth) as string[]).forEach(line => {
+      reserve(lineHeight);
+      pdf.text(line, align === 'center' ? pageWidth / 2 : PAGE_MARGIN, cursor, { baseline: 'top', align });
+      cursor += lineHeight;
+    });
+  };
+
+  // Long tables continue on the next page with the header repeated
+  const table = (caption: string, columns: string[], rows: (string | number)[][], fitContent = false) => {
+    reserve(20); // Keep the caption with the first rows
+    paragraph(caption, 10, HEADING_COLOR);
+    autoTable(pdf, {
+      startY: cursor,
+      head: [columns],
+      body: rows,
+      theme: 'grid',
+      tableWidth: fitContent ? 'wrap' : 'auto',
+      margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN },
+      styles: { font: PDF_FONT, fontStyle: 'normal', fontSize: 8.5, cellPadding: 1.2, textColor: TEXT_COLOR, lineColor: [209, 213, 219], lineWidth: 0.2 },
+      headStyles: { fillColor: [243, 244, 246] }
+    });
+    cursor = pdf.lastAutoTable.finalY + BLOCK_GAP;
+  };
+
+  paragraph(report.title, 18);
+  pdf.setDrawColor(16, 185, 129);
+  pdf.setLineWidth(0.6);
+  pdf.line(PAGE_MARGIN, cursor + 1, pageWidth - PAGE_MARGIN, cursor + 1);
+  cursor += 3;
+  paragraph(`生成时间: ${report.generatedAt}`, 9, MUTED_COLOR);
+
+  for (const [i, s] of report.sections.entries()) {
+    cursor += BLOCK_GAP * 2;
+    reserve(30);
+    paragraph(`${i + 1}. ${s.title}`, 13, HEADING_COLOR);
+    cursor += 1;
+    table('参数', ['参数', '取值'], s.parameters, true);
+    s.findings.forEach(f => { paragraph(f, 10); cursor += 1; });
+    cursor += BLOCK_GAP - 1;
+    s.tables.forEach(t => table(t.name, t.columns, t.rows));
+    if (s.figure) {
+      const image = await figureImage(s.figure.svg);
+      let width = Math.min(image.width * PX, contentWidth), height = image.height * width / image.width;
+      if (height > contentHeight - 12) { width *= (contentHeight - 12) / height; height = contentHeight - 12; }
+      reserve(height + 8);
+      pdf.addImage(image.dataUrl, 'PNG', PAGE_MARGIN + (contentWidth - width) / 2, cursor, width, height);
+      cursor += height + 1;
+      paragraph(s.figure.caption, 9, MUTED_COLOR, 'center');
+      cursor += BLOCK_GAP;
+    }
+  }
+
+  const pages = pdf.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    pdf.setFontSize(8);
+    pdf.setTextColor(150);
+    pdf.text(`${i} / ${pages}`, pageWidth / 2, pageHeight - 7, { align: 'center' });
+  }
+  return pdf;
+};
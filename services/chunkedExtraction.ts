@@ -0,0 +1,132 @@
+import { RawEntity, RawRelation, ExtractionResult, ExtractionSettings, ExtractionContext, TextChunk, ChunkingOptions, ChunkedExtractionResult } from "../types";
+import { extractWithProvider } from "./extractionProviders";
+import { attachChunkProvenance } from "./provenance";
+import { applyAliases } from "./aliasDictionary";
+
+export const DEFAULT_CHUNKING: ChunkingOptions = { chunkSize: 1500, overlap: 200 };
+
+const SENTENCE_END = /[。！？；!?;\n]/;
+
+// Split a document into overlapping chunks, preferring to cut after a sentence terminator
+// so that a fact is rarely split across two chunks.
+export const splitIntoChunks = (text: string, options: ChunkingOptions = DEFAULT_CHUNKING): TextChunk[] => {
+  const size = Math.max(100, options.chunkSize);
+  const overlap = Math.max(0, Math.min(options.overlap, Math.floor(size / 2)));
+  const chunks: TextChunk[] = [];
+  if (!text.trim()) return chunks;
+
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      // Back off to the last sentence end in the second half of the window
+      for (let i = end - 1; i > start + size / 2; i--) {
+        if (SENTENCE_END.test(text[i])) { end = i + 1; break; }
+      }
+    }
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) });
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the next sentence start inside the overlap window
+    let next = Math.max(end - overlap, start + 1);
+    for (let i = next; i < end; i++) {
+      if (SENTENCE_END.test(text[i])) { next = i + 1; break; }
+    }
+    start = next;
+  }
+  return chunks;
+};
+
+// Full-width -> half-width, drop whitespace, case-fold. "黄芪 " and "黄芪" are the same entity.
+export const normalizeName = (name: string) => (name || '').normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+const mergeChunkIds = (a: number[] | undefined, b: number[]) => Array.from(new Set([...(a || []), ...b])).sort((x, y) => x - y);
+
+// Merge per-chunk results: entities by normalized (name, type), relations by normalized triple.
+// The first surface form seen is kept; every merged item records the chunks it came from.
+export const mergeChunkResults = (results: Array<{ chunk: TextChunk, result: ExtractionResult }>): ExtractionResult => {
+  const entityMap = new Map<string, RawEntity>();
+  const canonicalName = new Map<string, string>(); // normalized name -> first surface form
+  const relationMap = new Map<string, RawRelation>();
+
+  results.forEach(({ chunk, result }) => {
+    result.entities.forEach(e => {
+      if (!e?.name) return;
+      const norm = normalizeName(e.name);
+      if (!canonicalName.has(norm)) canonicalName.set(norm, e.name.trim());
+      const key = `${norm}|${normalizeName(e.type)}`;
+      const existing = entityMap.get(key);
+      if (existing) {
+        existing.sourceChunks = mergeChunkIds(existing.sourceChunks, [chunk.index]);
+        if (e.aliases) existing.aliases = Array.from(new Set([...(existing.aliases || []), ...e.aliases]));
+      } else {
+        entityMap.set(key, { type: (e.type || '').trim(), name: canonicalName.get(norm)!, sourceChunks: [chunk.index], provenance: e.provenance, aliases: e.aliases });
+      }
+    });
+  });
+
+  results.forEach(({ chunk, result }) => {
+    result.relations.forEach(r => {
+      if (!r?.source || !r?.target || !r?.relation) return;
+      const s = normalizeName(r.source), t = normalizeName(r.target);
+      const key = `${s}|${normalizeName(r.relation)}|${t}`;
+      const existing = relationMap.get(key);
+      if (existing) {
+        existing.sourceChunks = mergeChunkIds(existing.sourceChunks, [chunk.index]);
+      } else {
+        relationMap.set(key, {
+          source: canonicalName.get(s) || r.source.trim(),
+          relation: r.relation.trim(),
+          target: canonicalName.get(t) || r.target.trim(),
+          sourceChunks: [chunk.index],
+          provenance: r.provenance
+        });
+      }
+    });
+  });
+
+  return { entities: Array.from(entityMap.values()), relations: Array.from(relationMap.values()) };
+};
+
+// Extract chunk by chunk. A failing chunk is recorded and skipped; cancelling keeps the
+// results of the chunks that already finished. Evidence offsets are relative to the full text.
+export const runChunkedExtraction = async (
+  text: string,
+  settings: ExtractionSettings,
+  context: ExtractionContext,
+  options: ChunkingOptions = DEFAULT_CHUNKING,
+  onProgress?: (done: number, total: number) => void
+): Promise<ChunkedExtractionResult> => {
+  const chunks = splitIntoChunks(text, options);
+  const completed: Array<{ chunk: TextChunk, result: ExtractionResult }> = [];
+  const failedChunks: ChunkedExtractionResult['failedChunks'] = [];
+  let cancelled = false;
+  const method = settings.provider === 'rule' ? 'rule' : 'llm';
+
+  onProgress?.(0, chunks.length);
+  for (const chunk of chunks) {
+    if (context.signal?.aborted) { cancelled = true; break; }
+    try {
+      const result = await extractWithProvider(chunk.text, settings, context);
+      // Evidence is located with the surface forms, before aliases rename them
+      const located = attachChunkProvenance(result, chunk, context.document, method);
+      completed.push({ chunk, result: applyAliases(located, context.aliases) });
+    } catch (e) {
+      if (context.signal?.aborted) { cancelled = true; break; }
+      failedChunks.push({ index: chunk.index, message: e instanceof Error ? e.message : String(e) });
+    }
+    onProgress?.(completed.length + failedChunks.length, chunks.length);
+  }
+
+  if (!cancelled && chunks.length > 0 && failedChunks.length === chunks.length) {
+    throw new Error(failedChunks[0].message);
+  }
+
+  return {
+    ...mergeChunkResults(completed),
+    chunkCount: chunks.length,
+    completedChunks: completed.length,
+    failedChunks,
+    cancelled
+  };
+};
@@ -0,0 +1,51 @@
+/// <reference types="vite/client" />
+import * as opentype from 'opentype.js';
+import notoSansScUrl from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+
+// Noto Sans SC (SIL OFL) ships with the app so exports never depend on the fonts of the machine opening them.
+// It is about 10 MB, so it is only fetched the first time something is exported.
+export const BUNDLED_FONT_FAMILY = 'Noto Sans SC';
+
+let bundled: Promise<ArrayBuffer> | null = null;
+let parsed: Promise<opentype.Font> | null = null;
+
+export const loadBundledFont = (): Promise<ArrayBuffer> => {
+  if (!bundled) {
+    bundled = fetch(notoSansScUrl).then(res => {
+      if (!res.ok) throw new Error(`内置字体加载失败 (${res.status})`);
+      return res.arrayBuffer();
+    });
+    bundled.catch(() => { bundled = null; parsed = null; }); // Let the next export retry
+  }
+  return bundled;
+};
+
+export const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const glyphName = (codePoint: number) => `uni${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+
+// Font holding only the glyphs of `text`, typically a few KB, for embedding with @font-face
+export const subsetBundledFont = async (text: string, family = `${BUNDLED_FONT_FAMILY} Subset`): Promise<{ name: string, dataUrl: string }> => {
+  parsed ??= loadBundledFont().then(opentype.parse);
+  const font = await parsed;
+  const notdef = font.glyphs.get(0);
+  const glyphs = [new opentype.Glyph({ name: '.notdef', advanceWidth: notdef.advanceWidth, path: notdef.path })];
+  new Set(Array.from(text).map(ch => ch.codePointAt(0)!)).forEach(codePoint => {
+    const glyph = font.charToGlyph(String.fromCodePoint(codePoint));
+    if (glyph.index > 0) glyphs.push(new opentype.Glyph({ name: glyphName(codePoint), unicode: codePoint, advanceWidth: glyph.advanceWidth, path: glyph.path }));
+  });
+  const subset = new opentype.Font({
+    familyName: family,
+    styleName: 'Regular',
+    unitsPerEm: font.unitsPerEm,
+    ascender: font.ascender,
+    descender: font.descender,
+    glyphs
+  });
+  return { name: family, dataUrl: `data:font/otf;base64,${toBase64(subset.toArrayBuffer())}` };
+};
@@ -0,0 +1,213 @@
+import { CommunityMethod } from '../types';
+import { createRng } from './random';
+
+export interface CommunityEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface CommunityPartition {
+  membership: Map<string, number>; // Community ids are numbered by size, largest first
+  sizes: number[];
+  modularity: number; // Always reported at resolution 1 so runs with different resolutions stay comparable
+}
+
+// Both quality functions share one form: Q = Σ_c [ L_c / m − γ R_c B_c / m² ], with L_c the internal weight
+// and R_c, B_c the summed degrees on each side. Barber's bipartite modularity counts red degrees in R and blue in B;
+// Newman modularity is the same sum with every node putting half its degree on each side.
+interface Level {
+  n: number;
+  adj: Map<number, number>[]; // Neighbour -> weight, without self-loops
+  red: number[];
+  blue: number[];
+}
+
+const LEIDEN_THETA = 0.01; // Randomness of the refinement merge choice
+const EPS = 1e-12;
+
+const shuffled = (n: number, random: () => number) => {
+  const order = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Moves single nodes to the neighbouring community with the best gain until none improves (queue-based sweep)
+const moveNodes = (level: Level, partition: number[], gamma: number, m: number, random: () => number) => {
+  const R = new Array(level.n).fill(0), B = new Array(level.n).fill(0);
+  partition.forEach((c, v) => { R[c] += level.red[v]; B[c] += level.blue[v]; });
+  const queue = shuffled(level.n, random);
+  const queued = new Array(level.n).fill(true);
+
+  while (queue.length > 0) {
+    const v = queue.shift()!;
+    queued[v] = false;
+    const own = partition[v];
+    R[own] -= level.red[v]; B[own] -= level.blue[v];
+
+    const weightTo = new Map<number, number>([[own, 0]]);
+    level.adj[v].forEach((w, u) => weightTo.set(partition[u], (weightTo.get(partition[u]) || 0) + w));
+    const gain = (c: number) => weightTo.get(c)! - gamma * (level.red[v] * B[c] + level.blue[v] * R[c]) / m;
+
+    let best = own, bestGain = gain(own);
+    weightTo.forEach((_, c) => {
+      const g = gain(c);
+      if (g > bestGain + EPS) { best = c; bestGain = g; }
+    });
+
+    R[best] += level.red[v]; B[best] += level.blue[v];
+    if (best !== own) {
+      partition[v] = best;
+      level.adj[v].forEach((_, u) => {
+        if (partition[u] !== best && !queued[u]) { queued[u] = true; queue.push(u); }
+      });
+    }
+  }
+};
+
+// Leiden refinement: inside each community, merge well-connected singletons into well-connected subclusters,
+// choosing randomly among non-negative gains, so every refined cluster is guaranteed to be connected
+const refinePartition = (level: Level, partition: number[], gamma: number, m: number, random: () => number) => {
+  const refined = Array.from({ length: level.n }, (_, i) => i);
+  const size = new Array(level.n).fill(1);
+  const R = [...level.red], B = [...level.blue];
+  const RS = new Map<number, number>(), BS = new Map<number, number>();
+  partition.forEach((c, v) => {
+    RS.set(c, (RS.get(c) || 0) + level.red[v]);
+    BS.set(c, (BS.get(c) || 0) + level.blue[v]);
+  });
+  // Weight from each node (and later each refined cluster) to the rest of its community
+  const external = level.adj.map((nb, v) => Array.from(nb).reduce((s, [u, w]) => s + (partition[u] === partition[v] ? w : 0), 0));
+  const wellConnected = (w: number, r: number, b: number, c: number) =>
+    w >= gamma * (r * (BS.get(c)! - b) + b * (RS.get(c)! - r)) / m - EPS;
+
+  shuffled(level.n, random).forEach(v => {
+    const S = partition[v];
+    if (size[refined[v]] > 1 || !wellConnected(external[v], level.red[v], level.blue[v], S)) return;
+
+    const weightTo = new Map<number, number>();
+    level.adj[v].forEach((w, u) => {
+      if (partition[u] === S && refined[u] !== refined[v]) weightTo.set(refined[u], (weightTo.get(refined[u]) || 0) + w);
+    });
+    const candidates: { c: number, gain: number }[] = [{ c: refined[v], gain: 0 }];
+    weightTo.forEach((w, c) => {
+      if (!wellConnected(external[c], R[c], B[c], S)) return;
+      const gain = w - gamma * (level.red[v] * B[c] + level.blue[v] * R[c]) / m;
+      if (gain >= 0) candidates.push({ c, gain });
+    });
+
+    const top = Math.max(...candidates.map(x => x.gain));
+    const odds = candidates.map(x => Math.exp((x.gain - top) / LEIDEN_THETA));
+    let pick = random() * odds.reduce((s, o) => s + o, 0);
+    const chosen = candidates.find((_, i) => (pick -= odds[i]) <= 0) || candidates[candidates.length - 1];
+    if (chosen.c === refined[v]) return;
+
+    const C = chosen.c;
+    external[C] += external[v] - 2 * weightTo.get(C)!;
+    R[C] += level.red[v]; B[C] += level.blue[v];
+    size[C] += 1;
+    size[refined[v]] = 0;
+    refined[v] = C;
+  });
+  return refined;
+};
+
+// Collapses each cluster into one node; links inside a cluster drop out since they no longer affect any move
+const aggregate = (level: Level, clusters: number[]) => {
+  const ids = new Map<number, number>();
+  clusters.forEach(c => { if (!ids.has(c)) ids.set(c, ids.size); });
+  const n = ids.size;
+  const next: Level = {
+    n,
+    adj: Array.from({ length: n }, () => new Map<number, number>()),
+    red: new Array(n).fill(0),
+    blue: new Array(n).fill(0)
+  };
+  for (let v = 0; v < level.n; v++) {
+    const a = ids.get(clusters[v])!;
+    next.red[a] += level.red[v];
+    next.blue[a] += level.blue[v];
+    level.adj[v].forEach((w, u) => {
+      const b = ids.get(clusters[u])!;
+      if (a !== b) next.adj[a].set(b, (next.adj[a].get(b) || 0) + w);
+    });
+  }
+  return { next, ids };
+};
+
+// Louvain or Leiden on a weighted undirected graph; with `sideOf`, optimises Barber's bipartite modularity instead
+export const detectCommunities = (
+  nodeIds: string[],
+  edges: CommunityEdge[],
+  method: CommunityMethod,
+  resolution: number,
+  seed: number,
+  sideOf?: (id: string) => 'red' | 'blue'
+): CommunityPartition => {
+  const index = new Map(nodeIds.map((id, i) => [id, i]));
+  const base: Level = {
+    n: nodeIds.length,
+    adj: nodeIds.map(() => new Map<number, number>()),
+    red: new Array(nodeIds.length).fill(0),
+    blue: new Array(nodeIds.length).fill(0)
+  };
+  let m = 0;
+  edges.forEach(({ source, target, weight }) => {
+    const a = index.get(source), b = index.get(target);
+    if (a === undefined || b === undefined || a === b || !(weight > 0)) return;
+    base.adj[a].set(b, (base.adj[a].get(b) || 0) + weight);
+    base.adj[b].set(a, (base.adj[b].get(a) || 0) + weight);
+    m += weight;
+  });
+  base.adj.forEach((nb, v) => {
+    const degree = Array.from(nb.values()).reduce((s, w) => s + w, 0);
+    if (!sideOf) { base.red[v] = degree / 2; base.blue[v] = degree / 2; }
+    else if (sideOf(nodeIds[v]) === 'red') base.red[v] = degree;
+    else base.blue[v] = degree;
+  });
+
+  // Level node each original node currently belongs to
+  let nodeOf = nodeIds.map((_, i) => i);
+  let partition = nodeOf.slice();
+  if (m > 0) {
+    const random = createRng(seed);
+    let level = base;
+    for (;;) {
+      moveNodes(level, partition, resolution, m, random);
+      const clusters = method === 'leiden' ? refinePartition(level, partition, resolution, m, random) : partition;
+      const { next, ids } = aggregate(level, clusters);
+      if (next.n === level.n) break;
+      nodeOf = nodeOf.map(v => ids.get(clusters[v])!);
+      // Leiden keeps the unrefined communities as the starting partition of the aggregate graph
+      const communityIds = new Map<number, number>();
+      const start = new Array(next.n);
+      clusters.forEach((c, v) => {
+        if (!communityIds.has(partition[v])) communityIds.set(partition[v], communityIds.size);
+        start[ids.get(c)!] = method === 'leiden' ? communityIds.get(partition[v])! : ids.get(c)!;
+      });
+      level = next;
+      partition = start;
+    }
+  }
+
+  // Renumber by size, largest community first
+  const raw = nodeOf.map(v => partition[v]);
+  const counts = new Map<number, number>();
+  raw.forEach(c => counts.set(c, (counts.get(c) || 0) + 1));
+  const order = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || raw.indexOf(a) - raw.indexOf(b));
+  const rank = new Map(order.map((c, i) => [c, i]));
+  const membership = new Map(nodeIds.map((id, i) => [id, rank.get(raw[i])!]));
+
+  const L = new Array(order.length).fill(0), R = new Array(order.length).fill(0), B = new Array(order.length).fill(0);
+  base.adj.forEach((nb, v) => {
+    const c = rank.get(raw[v])!;
+    R[c] += base.red[v]; B[c] += base.blue[v];
+    nb.forEach((w, u) => { if (u > v && rank.get(raw[u]) === c) L[c] += w; });
+  });
+  const modularity = m > 0 ? L.reduce((q, l, c) => q + l / m - R[c] * B[c] / (m * m), 0) : 0;
+
+  return { membership, sizes: order.map(c => counts.get(c)!), modularity };
+};
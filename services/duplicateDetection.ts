@@ -0,0 +1,138 @@
+import { pinyin } from 'pinyin-pro';
+import { RawEntity, RawRelation, GraphNode, GraphLink, DuplicateCandidate } from '../types';
+import { getAdjacency } from './graphAnalysis';
+import { mergeProvenance } from './provenance';
+
+const WEIGHTS = { edit: 0.3, pinyin: 0.2, chars: 0.2, neighbors: 0.3 };
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const editSimilarity = (a: string, b: string) => {
+  const maxLen = Math.max(a.length, b.length);
+  return maxLen === 0 ? 1 : 1 - levenshtein(a, b) / maxLen;
+};
+
+const jaccard = <T,>(a: Set<T>, b: Set<T>) => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let inter = 0;
+  a.forEach(x => { if (b.has(x)) inter++; });
+  return inter / (a.size + b.size - inter);
+};
+
+// Rank same-type entity pairs by how likely they name the same thing
+export const findDuplicateCandidates = (
+  entities: RawEntity[],
+  relations: RawRelation[],
+  options: { minScore?: number, limit?: number } = {}
+): DuplicateCandidate[] => {
+  const { minScore = 0.45, limit = 200 } = options;
+
+  const nodes: GraphNode[] = entities.map(e => ({ id: e.name, group: e.type }));
+  const links: GraphLink[] = relations.map(r => ({ source: r.source, target: r.target, type: r.relation }));
+  const adj = getAdjacency(nodes, links);
+  const neighbors = new Map<string, Set<string>>();
+  adj.forEach((list, id) => neighbors.set(id, new Set(list.map(x => x.id))));
+
+  const pinyinOf = new Map<string, string>();
+  const charsOf = new Map<string, Set<string>>();
+  entities.forEach(e => {
+    pinyinOf.set(e.name, pinyin(e.name, { toneType: 'none', type: 'array' }).join(''));
+    charsOf.set(e.name, new Set(Array.from(e.name)));
+  });
+
+  const byType = new Map<string, string[]>();
+  entities.forEach(e => {
+    if (!byType.has(e.type)) byType.set(e.type, []);
+    const list = byType.get(e.type)!;
+    if (!list.includes(e.name)) list.push(e.name);
+  });
+
+  const candidates: DuplicateCandidate[] = [];
+  byType.forEach((names, type) => {
+    for (let i = 0; i < names.length; i++) {
+      for (let j = i + 1; j < names.length; j++) {
+        const a = names[i], b = names[j];
+        const na = neighbors.get(a) || new Set<string>(), nb = neighbors.get(b) || new Set<string>();
+        const c: DuplicateCandidate = {
+          a, b, type,
+          editSimilarity: editSimilarity(a, b),
+          pinyinSimilarity: editSimilarity(pinyinOf.get(a)!, pinyinOf.get(b)!),
+          sharedChars: jaccard(charsOf.get(a)!, charsOf.get(b)!),
+          // A direct edge between the two is not evidence of duplication
+          neighborOverlap: jaccard(new Set([...na].filter(x => x !== b)), new Set([...nb].filter(x => x !== a))),
+          score: 0
+        };
+        c.score = WEIGHTS.edit * c.editSimilarity + WEIGHTS.pinyin * c.pinyinSimilarity
+          + WEIGHTS.chars * c.sharedChars + WEIGHTS.neighbors * c.neighborOverlap;
+        if (c.score >= minScore) candidates.push(c);
+      }
+    }
+  });
+
+  return candidates.sort((x, y) => y.score - x.score).slice(0, limit);
+};
+
+// Fold `drop` into `keep`: relation endpoints are rewritten, resulting self-loops and
+// duplicate edges are removed, and the dropped name is kept as an alias of `keep`.
+export const mergeEntities = (
+  entities: RawEntity[],
+  relations: RawRelation[],
+  keep: string,
+  drop: string
+): { entities: RawEntity[], relations: RawRelation[] } => {
+  if (keep === drop) return { entities, relations };
+  const dropped = entities.find(e => e.name === drop);
+
+  const nextEntities = entities
+    .filter(e => e.name !== drop)
+    .map(e => {
+      if (e.name !== keep) return e;
+      const aliases = new Set([...(e.aliases || []), drop, ...(dropped?.aliases || [])]);
+      aliases.delete(keep);
+      return { ...e, aliases: Array.from(aliases) };
+    });
+
+  // Only rewritten edges are collapsed into an identical edge; duplicates that existed before stay untouched
+  const indexByKey = new Map<string, number>();
+  const nextRelations: RawRelation[] = [];
+  relations.forEach(r => {
+    const rewritten = r.source === drop || r.target === drop;
+    const next = rewritten ? {
+      ...r,
+      source: r.source === drop ? keep : r.source,
+      target: r.target === drop ? keep : r.target
+    } : r;
+    if (next.source === next.target && r.source !== r.target) return;
+    const key = `${next.source}|${next.relation}|${next.target}`;
+    const existing = indexByKey.get(key);
+    if (rewritten && existing !== undefined) {
+      const kept = nextRelations[existing];
+      nextRelations[existing] = {
+        ...kept,
+        provenance: mergeProvenance(kept.provenance, next.provenance),
+        sourceChunks: kept.sourceChunks || next.sourceChunks
+          ? Array.from(new Set([...(kept.sourceChunks || []), ...(next.sourceChunks || [])])).sort((x, y) => x - y)
+          : undefined,
+        properties: kept.properties || next.properties ? { ...next.properties, ...kept.properties } : undefined
+      };
+      return;
+    }
+    if (existing === undefined) indexByKey.set(key, nextRelations.length);
+    nextRelations.push(next);
+  });
+
+  return { entities: nextEntities, relations: nextRelations };
+};
@@ -0,0 +1,47 @@
+import { ExtractionResult, RawEntity, RawRelation } from "../types";
+
+// Shared by every LLM-backed provider so the backends stay interchangeable
+export const SYSTEM_INSTRUCTION = `
+你是一位构建知识图谱的专家，尤其擅长中医（TCM）和医学文本的处理。
+你的任务是从非结构化文本中提取实体和关系。
+
+规则：
+1. 识别不同的实体（例如：具体的疾病、症状、草药、方剂、证候）。
+2. 识别它们之间的关系（例如：治疗、引起、是...的症状、包含、属于）。
+3. 必须以严格的JSON格式返回数据。
+4. 实体类型（type）和关系（relation）尽量使用简洁的中文术语。
+5. 为每个实体和关系给出 evidence 字段：逐字引用原文中支持它的那一句话。
+`;
+
+// Models without schema-constrained decoding need the output shape spelled out
+export const JSON_FORMAT_INSTRUCTION = `
+仅输出一个JSON对象，不要包含任何解释文字，格式如下：
+{"entities":[{"type":"方剂","name":"补阳还五汤","evidence":"补阳还五汤由黄芪、当归……组成。"}],"relations":[{"source":"补阳还五汤","relation":"组成","target":"黄芪","evidence":"补阳还五汤由黄芪、当归……组成。"}]}
+`;
+
+export const buildUserPrompt = (text: string) => `请从以下文本中提取知识图谱数据:\n\n${text}`;
+
+// The quoted evidence is kept in provenance; offsets are resolved later against the source text
+const withEvidence = <T extends RawEntity | RawRelation>(item: T & { evidence?: string }): T => {
+  const { evidence, ...rest } = item;
+  return (typeof evidence === 'string' && evidence.trim()
+    ? { ...rest, provenance: { method: 'llm', timestamp: new Date().toISOString(), evidence: evidence.trim() } }
+    : rest) as T;
+};
+
+// Tolerates markdown code fences and leading/trailing chatter around the JSON object
+export const parseExtractionJson = (raw: string | undefined | null): ExtractionResult => {
+  if (!raw) return { entities: [], relations: [] };
+  let body = raw.trim();
+  const fenced = body.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) body = fenced[1].trim();
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error("模型返回的内容不是有效的 JSON");
+
+  const parsed = JSON.parse(body.slice(start, end + 1));
+  return {
+    entities: Array.isArray(parsed.entities) ? parsed.entities.map(withEvidence) : [],
+    relations: Array.isArray(parsed.relations) ? parsed.relations.map(withEvidence) : []
+  };
+};
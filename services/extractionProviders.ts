@@ -0,0 +1,31 @@
+import { ExtractionProvider, ExtractionProviderId, ExtractionResult, ExtractionSettings, ExtractionContext } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openaiCompatibleProvider, OPENAI_DEFAULT_BASE_URL } from "./openaiCompatibleService";
+import { ruleBasedProvider } from "./ruleBasedExtractor";
+
+export const EXTRACTION_PROVIDERS: ExtractionProvider[] = [
+  geminiProvider,
+  openaiCompatibleProvider,
+  ruleBasedProvider
+];
+
+export const getExtractionProvider = (id: ExtractionProviderId): ExtractionProvider => {
+  const provider = EXTRACTION_PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`未知的抽取后端: ${id}`);
+  return provider;
+};
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: 'gemini',
+  model: geminiProvider.defaultModel,
+  baseUrl: OPENAI_DEFAULT_BASE_URL,
+  apiKey: ''
+};
+
+export const extractWithProvider = (
+  text: string,
+  settings: ExtractionSettings,
+  context: ExtractionContext
+): Promise<ExtractionResult> => {
+  return getExtractionProvider(settings.provider).extract(text, settings, context);
+};
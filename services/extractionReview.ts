@@ -0,0 +1,108 @@
+import { RawEntity, RawRelation, ExtractionReview, EntityCandidate, RelationCandidate } from '../types';
+
+const relationKey = (r: RawRelation) => `${r.source}|${r.relation}|${r.target}`;
+const pairKey = (source: string, target: string) => `${source}|${target}`;
+
+// Compare extracted candidates with the current graph.
+// Entities: same name + same type = duplicate, same name + other type = conflict.
+// Relations: identical triple = duplicate, same endpoints with another relation = conflict.
+export const buildExtractionReview = (
+  extracted: { entities: RawEntity[], relations: RawRelation[] },
+  entities: RawEntity[],
+  relations: RawRelation[]
+): ExtractionReview => {
+  const typeByName = new Map<string, string>();
+  entities.forEach(e => typeByName.set(e.name, e.type));
+
+  const entityCandidates: EntityCandidate[] = [];
+  const seenEntities = new Set<string>();
+  extracted.entities.forEach(raw => {
+    const entity = { ...raw, type: (raw.type || '').trim(), name: (raw.name || '').trim() };
+    if (!entity.name || seenEntities.has(entity.name)) return;
+    seenEntities.add(entity.name);
+
+    const existingType = typeByName.get(entity.name);
+    if (existingType === undefined) {
+      entityCandidates.push({ entity, status: 'new', accepted: true });
+    } else if (existingType === entity.type) {
+      entityCandidates.push({ entity, status: 'duplicate', accepted: false });
+    } else {
+      entityCandidates.push({ entity, status: 'conflict', existingType, accepted: false });
+    }
+  });
+
+  const existingTriples = new Set(relations.map(relationKey));
+  const relationsByPair = new Map<string, string[]>();
+  relations.forEach(r => {
+    const k = pairKey(r.source, r.target);
+    if (!relationsByPair.has(k)) relationsByPair.set(k, []);
+    relationsByPair.get(k)?.push(r.relation);
+  });
+
+  const relationCandidates: RelationCandidate[] = [];
+  const seenRelations = new Set<string>();
+  extracted.relations.forEach(raw => {
+    const relation = {
+      ...raw,
+      source: (raw.source || '').trim(),
+      relation: (raw.relation || '').trim(),
+      target: (raw.target || '').trim()
+    };
+    if (!relation.source || !relation.target || !relation.relation) return;
+    const k = relationKey(relation);
+    if (seenRelations.has(k)) return;
+    seenRelations.add(k);
+
+    if (existingTriples.has(k)) {
+      relationCandidates.push({ relation, status: 'duplicate', accepted: false });
+      return;
+    }
+    const others = relationsByPair.get(pairKey(relation.source, relation.target));
+    if (others && others.length > 0) {
+      relationCandidates.push({ relation, status: 'conflict', existingRelations: Array.from(new Set(others)), accepted: false });
+    } else {
+      relationCandidates.push({ relation, status: 'new', accepted: true });
+    }
+  });
+
+  return { entities: entityCandidates, relations: relationCandidates };
+};
+
+// Endpoints of a relation that would not exist after merging: neither in the graph nor an accepted new entity
+export const unresolvedEndpoints = (relation: RawRelation, review: ExtractionReview, entities: RawEntity[]): string[] => {
+  const accepted = new Set(review.entities.filter(c => c.accepted && c.status === 'new').map(c => c.entity.name));
+  const existing = new Set(entities.map(e => e.name));
+  return Array.from(new Set([relation.source, relation.target])).filter(name => !existing.has(name) && !accepted.has(name));
+};
+
+// Write the accepted candidates into the graph.
+// An accepted entity conflict retypes the existing entity; an accepted relation conflict
+// is added next to the existing relations of that pair. Accepted duplicates are no-ops.
+// Accepted relations with an unresolved endpoint are skipped rather than left dangling.
+export const applyExtractionReview = (
+  review: ExtractionReview,
+  entities: RawEntity[],
+  relations: RawRelation[]
+): { entities: RawEntity[], relations: RawRelation[], addedEntities: number, addedRelations: number, retyped: number, skippedRelations: number } => {
+  const retypes = new Map<string, string>();
+  const newEntities: RawEntity[] = [];
+  review.entities.filter(c => c.accepted).forEach(c => {
+    if (c.status === 'new') newEntities.push(c.entity);
+    else if (c.status === 'conflict') retypes.set(c.entity.name, c.entity.type);
+  });
+
+  const existingTriples = new Set(relations.map(relationKey));
+  const candidates = review.relations.filter(c => c.accepted && c.status !== 'duplicate' && !existingTriples.has(relationKey(c.relation)));
+  const newRelations = candidates.filter(c => unresolvedEndpoints(c.relation, review, entities).length === 0).map(c => c.relation);
+
+  const nextEntities = entities.map(e => retypes.has(e.name) ? { ...e, type: retypes.get(e.name)! } : e);
+
+  return {
+    entities: [...nextEntities, ...newEntities],
+    relations: [...relations, ...newRelations],
+    addedEntities: newEntities.length,
+    addedRelations: newRelations.length,
+    retyped: retypes.size,
+    skippedRelations: candidates.length - newRelations.length
+  };
+};
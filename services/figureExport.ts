@@ -0,0 +1,189 @@
+import * as d3 from 'd3';
+import { FigureExportOptions, LegendItem, NodeShape, GraphNode, GroupStyleMap } from '../types';
+import { subsetBundledFont } from './cjkFont';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const SCREEN_DPI = 96;
+const PADDING = 20;
+
+// System fonts that cover Chinese, the fallback behind the embedded font
+export const CJK_FONT_STACK = '"Noto Sans SC", "Source Han Sans SC", "PingFang SC", "Microsoft YaHei", "SimHei", sans-serif';
+
+const SYMBOLS: Record<NodeShape, d3.SymbolType> = {
+  circle: d3.symbolCircle,
+  square: d3.symbolSquare,
+  diamond: d3.symbolDiamond,
+  triangle: d3.symbolTriangle,
+  star: d3.symbolStar
+};
+
+// One entry per group drawn, coloured the way ForceGraph fills nodes (analysis colours take precedence)
+export const buildLegend = (nodes: GraphNode[], groupStyles: GroupStyleMap): LegendItem[] => {
+  const items = new Map<string, LegendItem>();
+  nodes.forEach(n => {
+    if (items.has(n.group)) return;
+    const style = groupStyles[n.group];
+    items.set(n.group, { label: n.group, color: n._color || style?.color || '#cccccc', shape: style?.shape });
+  });
+  return Array.from(items.values());
+};
+
+// --- SVG Assembly ---
+
+interface Box { x: number, y: number, width: number, height: number }
+
+// Bounds of the drawing in the SVG's own coordinates. The content group's pan/zoom transform is kept for the
+// viewport and dropped for the full extent, so the full figure is independent of how the user zoomed.
+const resolveExtent = (svg: SVGSVGElement, content: SVGGraphicsElement | null, extent: FigureExportOptions['extent']): { box: Box, keepTransform: boolean } => {
+  const width = svg.width.baseVal.value || svg.clientWidth;
+  const height = svg.height.baseVal.value || svg.clientHeight;
+  if (extent === 'viewport' || !content) return { box: { x: 0, y: 0, width, height }, keepTransform: true };
+
+  const bbox = content.getBBox();
+  // A content group that is only translated (e.g. margins) keeps that offset in the full extent too
+  const zoomed = !!content.getAttribute('transform')?.includes('scale');
+  const offset = zoomed ? { x: 0, y: 0 } : (() => {
+    const m = content.transform.baseVal.consolidate()?.matrix;
+    return { x: m?.e || 0, y: m?.f || 0 };
+  })();
+  return {
+    box: { x: bbox.x + offset.x - PADDING, y: bbox.y + offset.y - PADDING, width: bbox.width + PADDING * 2, height: bbox.height + PADDING * 2 },
+    keepTransform: !zoomed
+  };
+};
+
+const appendLegend = (svg: SVGSVGElement, items: LegendItem[], box: Box) => {
+  const rowHeight = 18;
+  const longest = Math.max(...items.map(i => i.label.length));
+  const width = 36 + longest * 12;
+  const height = items.length * rowHeight + 12;
+  const legend = d3.select(svg).append('g')
+    .attr('class', 'figure-legend')
+    .attr('transform', `translate(${box.x + box.width - width - 10},${box.y + 10})`);
+
+  legend.append('rect')
+    .attr('width', width).attr('height', height).attr('rx', 4)
+    .attr('fill', '#ffffff').attr('fill-opacity', 0.9).attr('stroke', '#d1d5db');
+
+  items.forEach((item, i) => {
+    const row = legend.append('g').attr('transform', `translate(14,${14 + i * rowHeight})`);
+    row.append('path')
+      .attr('d', d3.symbol().type(SYMBOLS[item.shape || 'circle']).size(90)() || '')
+      .attr('fill', item.color);
+    row.append('text')
+      .attr('x', 14).attr('y', 4)
+      .attr('font-size', '12px').attr('fill', '#374151')
+      .text(item.label);
+  });
+};
+
+// Standalone copy of the on-screen SVG, cropped to the chosen extent, on a white background, with its font embedded
+const buildFigure = (svg: SVGSVGElement, options: FigureExportOptions, legend: LegendItem[], font: { name: string, dataUrl: string }): { source: string, box: Box } => {
+  const content = svg.querySelector<SVGGraphicsElement>(':scope > g');
+  const { box, keepTransform } = resolveExtent(svg, content, options.extent);
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+  clone.setAttribute('viewBox', `${box.x} ${box.y} ${box.width} ${box.height}`);
+  clone.setAttribute('width', String(box.width));
+  clone.setAttribute('height', String(box.height));
+  clone.removeAttribute('class');
+  if (!keepTransform) clone.querySelector(':scope > g')?.removeAttribute('transform');
+  // Transparent hit areas only matter for mouse interaction
+  clone.querySelectorAll('[stroke="transparent"]').forEach(el => el.remove());
+
+  const style = document.createElementNS(SVG_NS, 'style');
+  style.textContent = [
+    `@font-face { font-family: "${font.name}"; src: url(${font.dataUrl}); }`,
+    `text { font-family: "${font.name}", ${CJK_FONT_STACK}; }`
+  ].join('\n');
+  clone.insertBefore(style, clone.firstChild);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  Object.entries({ x: box.x, y: box.y, width: box.width, height: box.height, fill: '#ffffff' }).forEach(([k, v]) => background.setAttribute(k, String(v)));
+  clone.insertBefore(background, style.nextSibling);
+
+  if (options.legend && legend.length > 0) appendLegend(clone, legend, box);
+
+  return { source: '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' + new XMLSerializer().serializeToString(clone), box };
+};
+
+// --- PNG ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xFFFFFFFF;
+  bytes.forEach(b => { c = CRC_TABLE[(c ^ b) & 0xFF] ^ (c >>> 8); });
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Write the resolution into a pHYs chunk right after IHDR, so layout tools place the image at the intended size
+const withPngDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  const png = new Uint8Array(await blob.arrayBuffer());
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  const ihdrEnd = 8 + 25; // Signature + IHDR chunk
+  return new Blob([png.subarray(0, ihdrEnd), chunk, png.subarray(ihdrEnd)], { type: 'image/png' });
+};
+
+const rasterize = (source: string, box: Box, dpi: number): Promise<Blob> => new Promise((resolve, reject) => {
+  const scale = dpi / SCREEN_DPI;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(box.width * scale);
+  canvas.height = Math.round(box.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) { reject(new Error('浏览器不支持 Canvas')); return; }
+
+  // Rendering the SVG at the target size keeps vector edges and text sharp
+  const image = new Image(canvas.width, canvas.height);
+  image.onload = () => {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片过大，请降低 DPI')), 'image/png');
+  };
+  image.onerror = () => reject(new Error('SVG 渲染失败'));
+  image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(source);
+});
+
+const download = (blob: Blob, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = URL.createObjectURL(blob);
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(a.href);
+};
+
+// Without an uploaded font, the bundled CJK font is embedded, cut down to the characters the figure uses
+export const exportFigure = async (svg: SVGSVGElement, options: FigureExportOptions, legend: LegendItem[], baseName: string): Promise<void> => {
+  const text = Array.from(svg.querySelectorAll('text'), t => t.textContent || '').join('') + legend.map(i => i.label).join('');
+  const font = options.font || await subsetBundledFont(text);
+  const { source, box } = buildFigure(svg, options, legend, font);
+  if (options.format === 'svg') {
+    download(new Blob([source], { type: 'image/svg+xml' }), `${baseName}.svg`);
+    return;
+  }
+  const png = await rasterize(source, box, options.dpi);
+  download(await withPngDpi(png, options.dpi), `${baseName}_${options.dpi}dpi.png`);
+};
+
+export const readFontFile = (file: File): Promise<{ name: string, dataUrl: string }> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve({ name: file.name.replace(/\.[^.]+$/, ''), dataUrl: reader.result as string });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
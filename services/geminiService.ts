@@ -1,30 +1,27 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { RawEntity, RawRelation } from "../types";
+import { ExtractionProvider, ExtractionResult } from "../types";
+import { SYSTEM_INSTRUCTION, buildUserPrompt, parseExtractionJson } from "./extractionPrompt";
 
-const SYSTEM_INSTRUCTION = `
-你是一位构建知识图谱的专家，尤其擅长中医（TCM）和医学文本的处理。
-你的任务是从非结构化文本中提取实体和关系。
+export const GEMINI_DEFAULT_MODEL = "gemini-3-pro-preview";
 
-规则：
-1. 识别不同的实体（例如：具体的疾病、症状、草药、方剂、证候）。
-2. 识别它们之间的关系（例如：治疗、引起、是...的症状、包含、属于）。
-3. 必须以严格的JSON格式返回数据。
-4. 实体类型（type）和关系（relation）尽量使用简洁的中文术语。
-`;
-
-export const extractGraphFromText = async (text: string): Promise<{ entities: RawEntity[], relations: RawRelation[] }> => {
-  if (!process.env.API_KEY) {
+export const extractGraphFromText = async (
+  text: string,
+  options: { model?: string, apiKey?: string, signal?: AbortSignal } = {}
+): Promise<ExtractionResult> => {
+  const apiKey = options.apiKey || process.env.API_KEY;
+  if (!apiKey) {
     throw new Error("缺少 API Key");
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const ai = new GoogleGenAI({ apiKey });
 
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: `请从以下文本中提取知识图谱数据:\n\n${text}`,
+      model: options.model || GEMINI_DEFAULT_MODEL,
+      contents: buildUserPrompt(text),
       config: {
         systemInstruction: SYSTEM_INSTRUCTION,
+        abortSignal: options.signal,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -35,7 +32,8 @@ export const extractGraphFromText = async (text: string): Promise<{ entities: Ra
                 type: Type.OBJECT,
                 properties: {
                   type: { type: Type.STRING, description: "实体的类别 (例如 '疾病', '症状', '方剂')" },
-                  name: { type: Type.STRING, description: "实体的唯一名称" }
+                  name: { type: Type.STRING, description: "实体的唯一名称" },
+                  evidence: { type: Type.STRING, description: "原文中提及该实体的句子 (逐字引用)" }
                 },
                 required: ["type", "name"]
               }
@@ -47,7 +45,8 @@ export const extractGraphFromText = async (text: string): Promise<{ entities: Ra
                 properties: {
                   source: { type: Type.STRING, description: "源实体名称" },
                   relation: { type: Type.STRING, description: "关系类型 (例如 '治疗', '归经')" },
-                  target: { type: Type.STRING, description: "目标实体名称" }
+                  target: { type: Type.STRING, description: "目标实体名称" },
+                  evidence: { type: Type.STRING, description: "原文中支持该关系的句子 (逐字引用)" }
                 },
                 required: ["source", "relation", "target"]
               }
@@ -57,17 +56,18 @@ export const extractGraphFromText = async (text: string): Promise<{ entities: Ra
       }
     });
 
-    const resultText = response.text;
-    if (!resultText) return { entities: [], relations: [] };
-
-    const parsed = JSON.parse(resultText);
-    return {
-      entities: parsed.entities || [],
-      relations: parsed.relations || []
-    };
+    return parseExtractionJson(response.text);
 
   } catch (error) {
     console.error("Gemini Extraction Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ExtractionProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  defaultModel: GEMINI_DEFAULT_MODEL,
+  requiresNetwork: true,
+  extract: (text, settings, context) => extractGraphFromText(text, { model: settings.model, apiKey: settings.apiKey, signal: context.signal })
+};
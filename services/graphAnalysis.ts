@@ -1,7 +1,12 @@
-import { GraphNode, GraphLink, RawEntity, RawRelation, GraphData, DendrogramNode, DistanceType, ClusterMethod, AssociationRuleResult } from '../types';
+import { GraphNode, GraphLink, RawEntity, RawRelation, GraphData, DendrogramNode, DistanceType, VectorBasis, ClusterMethod, AssociationRuleResult, AliasDictionary, NetworkMetadata, NodeMetricKey, CentralityOptions, PathWeighting, AnalysisAlgoConfig, CommunityDetectionResult, DendrogramCut } from '../types';
+import { applyAliases } from './aliasDictionary';
+import { detectCommunities } from './communityDetection';
+import { clusterHierarchically, HierarchicalClustering } from './hierarchicalClustering';
+import { SparseVector, toSparse, vectorDistance } from './vectorDistance';
+import { createRng } from './random';
 
 // Helper: Get Adjacency List
-const getAdjacency = (nodes: GraphNode[], links: GraphLink[], weighted: boolean = false) => {
+export const getAdjacency = (nodes: GraphNode[], links: GraphLink[], weighted: boolean = false) => {
   const adj = new Map<string, Array<{id: string, weight: number}>>();
   nodes.forEach(n => adj.set(n.id, []));
   
@@ -16,131 +21,79 @@ const getAdjacency = (nodes: GraphNode[], links: GraphLink[], weighted: boolean
   return adj;
 };
 
-// Distance Functions
-const calculateDistance = (vecA: number[], vecB: number[], type: DistanceType): number => {
-  if (type === 'manhattan') { // Absolute value
-    return vecA.reduce((sum, v, i) => sum + Math.abs(v - vecB[i]), 0);
-  } else if (type === 'chebyshev') {
-    return vecA.reduce((max, v, i) => Math.max(max, Math.abs(v - vecB[i])), 0);
-  } else if (type === 'lance') {
-    // Implementing Canberra distance as "Lance" style robust distance
-    return vecA.reduce((sum, v, i) => {
-       const denom = Math.abs(v) + Math.abs(vecB[i]);
-       return sum + (denom === 0 ? 0 : Math.abs(v - vecB[i]) / denom);
-    }, 0);
-  }
-  // Default Euclidean
-  return Math.sqrt(vecA.reduce((sum, v, i) => sum + Math.pow(v - vecB[i], 2), 0));
-};
-
 // --- ALGORITHMS ---
 
+const rowVector = (row: Map<number, number>): SparseVector => {
+  const dims = Array.from(row.keys()).sort((a, b) => a - b);
+  return { index: dims, value: dims.map(j => row.get(j)!) };
+};
+
 // 1. Hierarchical Clustering (Output: Dendrogram Tree)
+// Co-occurrence basis: each node's weighted co-occurrence with every other node.
+// Membership basis: each node's 0/1 row of the container × item matrix behind the co-occurrence graph.
 const calculateHierarchicalTree = (
   nodes: GraphNode[], 
   links: GraphLink[], 
-  config: { distanceType: DistanceType, method: ClusterMethod }
-): DendrogramNode => {
-  // 1. Create Vectors based on adjacency (1-mode co-occurrence)
-  const adj = getAdjacency(nodes, links, true);
-  const vectors: Record<string, number[]> = {};
-  const allNodeIds = nodes.map(n => n.id);
-  
-  nodes.forEach(n => {
-    // Vector is the weight to all other nodes
-    vectors[n.id] = allNodeIds.map(id => {
-      if (id === n.id) return 0;
-      const neighbor = adj.get(n.id)?.find(x => x.id === id);
-      return neighbor ? neighbor.weight : 0;
+  config: { distanceType: DistanceType, basis: VectorBasis, method: ClusterMethod },
+  memberships?: Map<string, Set<string>>
+): HierarchicalClustering => {
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const rows = nodes.map(() => new Map<number, number>());
+  let dims = nodes.length;
+  if (config.basis === 'membership' && memberships) {
+    dims = memberships.size;
+    Array.from(memberships.values()).forEach((items, c) => items.forEach(id => {
+      if (index.has(id)) rows[index.get(id)!].set(c, 1);
+    }));
+  } else {
+    getAdjacency(nodes, links, true).forEach((neighbors, id) => {
+      const row = rows[index.get(id)!];
+      neighbors.forEach(({ id: other, weight }) => {
+        const j = index.get(other);
+        if (j !== undefined && other !== id) row.set(j, (row.get(j) || 0) + weight);
+      });
     });
-  });
-
-  // 2. Initialize Clusters
-  // Each cluster is { id: string, members: string[], tree: DendrogramNode, vec: number[] }
-  let clusters = nodes.map((n, idx) => ({
-    id: `c_${idx}`,
-    members: [n.id],
-    vec: vectors[n.id],
-    tree: { name: n.id, isLeaf: true, distance: 0 } as DendrogramNode
-  }));
-
-  // Helper to calc dist between two clusters based on Linkage Method
-  const getClusterDist = (c1: typeof clusters[0], c2: typeof clusters[0]): number => {
-    if (config.method === 'centroid') {
-       // Distance between geometric centers
-       return calculateDistance(c1.vec, c2.vec, config.distanceType);
-    } else {
-       // Pairwise distances
-       let dists: number[] = [];
-       c1.members.forEach(m1 => {
-         c2.members.forEach(m2 => {
-           dists.push(calculateDistance(vectors[m1], vectors[m2], config.distanceType));
-         });
-       });
-       if (config.method === 'complete') return Math.max(...dists); // Longest distance
-       // Average
-       return dists.reduce((a,b) => a+b, 0) / dists.length;
-    }
-  };
+  }
+  return clusterHierarchically(nodes.map(n => n.id), rows.map(rowVector), dims, config.distanceType, config.method);
+};
 
-  // 3. Loop until 1 cluster remains
-  while (clusters.length > 1) {
-    let minD = Infinity;
-    let mergeIdx1 = -1;
-    let mergeIdx2 = -1;
-
-    // Find closest pair
-    for (let i = 0; i < clusters.length; i++) {
-      for (let j = i + 1; j < clusters.length; j++) {
-        const d = getClusterDist(clusters[i], clusters[j]);
-        if (d < minD) {
-          minD = d;
-          mergeIdx1 = i;
-          mergeIdx2 = j;
-        }
-      }
+export const leavesOf = (tree: DendrogramNode): string[] => tree.children?.length ? tree.children.flatMap(leavesOf) : [tree.name];
+
+// Flat clusters from the dendrogram, either the k topmost subtrees or every subtree merged below a distance.
+// With k, the cut height lies between the last split and the highest kept merge.
+export const cutDendrogram = (tree: DendrogramNode, config: { cutMode: 'k' | 'distance', k: number, cutDistance: number }): DendrogramCut => {
+  let groups = [tree];
+  let height: number;
+  if (config.cutMode === 'distance') {
+    const split = (node: DendrogramNode): DendrogramNode[] =>
+      node.children?.length && (node.distance || 0) > config.cutDistance ? node.children.flatMap(split) : [node];
+    groups = split(tree);
+    height = config.cutDistance;
+  } else {
+    let lastSplit = tree.distance || 0;
+    while (groups.length < config.k) {
+      const splittable = groups.filter(g => g.children?.length);
+      if (splittable.length === 0) break;
+      const next = splittable.reduce((a, b) => (b.distance || 0) > (a.distance || 0) ? b : a);
+      lastSplit = next.distance || 0;
+      groups = [...groups.filter(g => g !== next), ...next.children!];
     }
-
-    if (mergeIdx1 === -1) break; // Should not happen
-
-    const c1 = clusters[mergeIdx1];
-    const c2 = clusters[mergeIdx2];
-
-    // Merge
-    const newMembers = [...c1.members, ...c2.members];
-    
-    // Calculate new vector (Centroid)
-    const newVec = newMembers[0] ? vectors[newMembers[0]].map((_, i) => {
-        return newMembers.reduce((sum, m) => sum + vectors[m][i], 0) / newMembers.length;
-    }) : [];
-
-    const newCluster = {
-      id: `merged_${Date.now()}_${Math.random()}`,
-      members: newMembers,
-      vec: newVec,
-      tree: {
-        name: "",
-        distance: minD,
-        children: [c1.tree, c2.tree]
-      } as DendrogramNode
-    };
-
-    // Remove old, add new
-    clusters = clusters.filter((_, idx) => idx !== mergeIdx1 && idx !== mergeIdx2);
-    clusters.push(newCluster);
+    const highestKept = Math.max(0, ...groups.map(g => g.distance || 0));
+    height = (highestKept + lastSplit) / 2;
   }
-
-  return clusters[0]?.tree || { name: "Root", children: [] };
+  return { height, clusters: groups.map(leavesOf).sort((a, b) => b.length - a.length) };
 };
 
 // 2. K-Means (Heterogeneous Vectorization)
 // e.g., Cluster "Herbs" based on which "Formulas" they appear in.
 export const calculateVectorKMeans = (
-  entities: RawEntity[],
-  relations: RawRelation[],
-  targetType: string,
-  k: number
+  rawEntities: RawEntity[],
+  rawRelations: RawRelation[],
+  config: AnalysisAlgoConfig['kmeans'],
+  aliases?: AliasDictionary
 ): { result: Record<string, number>, nodes: GraphNode[] } => {
+  const { targetType, k, seed, distanceType, basis } = config;
+  const { entities, relations } = applyAliases({ entities: rawEntities, relations: rawRelations }, aliases);
   // 1. Identify target nodes
   const targetNodes = entities.filter(e => e.type === targetType);
   if (targetNodes.length === 0) return { result: {}, nodes: [] };
@@ -169,21 +122,40 @@ export const calculateVectorKMeans = (
 
   const featureList = Array.from(contextFeatures).sort();
   
-  // 3. Vectorize
-  const vectors = targetNodes.map(n => {
-    const conns = nodeConnections.get(n.name) || new Set();
-    return featureList.map(f => conns.has(f) ? 1 : 0);
-  });
+  // 3. Vectorize: 0/1 links to each feature, or the number of features shared with each other target
+  const featureIndex = new Map(featureList.map((f, i) => [f, i]));
+  const rows = targetNodes.map(() => new Map<number, number>());
+  let dims = featureList.length;
+  if (basis === 'cooccurrence') {
+    dims = targetNodes.length;
+    const holders = new Map<string, number[]>();
+    targetNodes.forEach((n, i) => nodeConnections.get(n.name)?.forEach(f => {
+      if (!holders.has(f)) holders.set(f, []);
+      holders.get(f)!.push(i);
+    }));
+    holders.forEach(members => members.forEach(a => members.forEach(b => {
+      if (a !== b) rows[a].set(b, (rows[a].get(b) || 0) + 1);
+    })));
+  } else {
+    targetNodes.forEach((n, i) => nodeConnections.get(n.name)?.forEach(f => rows[i].set(featureIndex.get(f)!, 1)));
+  }
+  const vectors = rows.map(rowVector);
 
   // 4. K-Means
-  let centroids = vectors.slice(0, k);
-  if (vectors.length < k) centroids = vectors;
-  
   let assignments = new Array(vectors.length).fill(0);
 
-  const distance = (a: number[], b: number[]) => {
-    return Math.sqrt(a.reduce((sum, val, i) => sum + Math.pow(val - b[i], 2), 0));
-  };
+  const distance = (a: SparseVector, b: SparseVector) => vectorDistance(a, b, distanceType, dims);
+
+  // k-means++ initialization: each further centroid is drawn with probability proportional to squared distance
+  const random = createRng(seed);
+  let centroids: SparseVector[] = [vectors[Math.floor(random() * vectors.length)]];
+  while (centroids.length < Math.min(k, vectors.length)) {
+    const weights = vectors.map(v => Math.min(...centroids.map(c => distance(v, c))) ** 2);
+    const total = weights.reduce((s, w) => s + w, 0);
+    if (total === 0) break; // Fewer distinct vectors than k
+    let pick = random() * total;
+    centroids.push(vectors[weights.findIndex(w => (pick -= w) < 0)] ?? vectors[vectors.length - 1]);
+  }
 
   for (let iter = 0; iter < 10; iter++) {
     vectors.forEach((v, i) => {
@@ -197,16 +169,16 @@ export const calculateVectorKMeans = (
     });
 
     // Update Centroids
-    const newCentroids = Array(k).fill(0).map(() => new Array(featureList.length).fill(0));
-    const counts = Array(k).fill(0);
+    const newCentroids = centroids.map(() => new Array(dims).fill(0));
+    const counts = centroids.map(() => 0);
     
     vectors.forEach((v, i) => {
       const c = assignments[i];
       counts[c]++;
-      v.forEach((val, dim) => newCentroids[c][dim] += val);
+      v.index.forEach((dim, t) => newCentroids[c][dim] += v.value[t]);
     });
 
-    centroids = newCentroids.map((c, i) => counts[i] > 0 ? c.map(x => x / counts[i]) : c);
+    centroids = newCentroids.map((c, i) => counts[i] > 0 ? toSparse(c.map(x => x / counts[i])) : centroids[i]);
   }
 
   const result: Record<string, number> = {};
@@ -216,81 +188,83 @@ export const calculateVectorKMeans = (
   const resultNodes: GraphNode[] = targetNodes.map(n => ({
     id: n.name,
     group: n.type,
+    aliases: n.aliases,
     clusters: { kmeans: result[n.name] }
   }));
 
   return { result, nodes: resultNodes };
 };
 
-// 3. Bipartite Community Detection (Simulated Leiden)
-// Uses simple label propagation on a filtered bipartite graph
-export const calculateBipartiteCommunity = (
-  entities: RawEntity[],
-  relations: RawRelation[],
-  frontType: string,
-  backType: string
-): { nodes: GraphNode[], links: GraphLink[] } => {
-  // Extract Bipartite Subgraph
-  const frontNodes = entities.filter(e => e.type === frontType);
-  const backNodes = entities.filter(e => e.type === backType);
-  const validNames = new Set([...frontNodes, ...backNodes].map(e => e.name));
-
-  const validLinks = relations.filter(r => validNames.has(r.source) && validNames.has(r.target) && r.source !== r.target);
-  
-  // Construct Graph
-  const nodes: GraphNode[] = [...frontNodes, ...backNodes].map(e => ({
-    id: e.name, group: e.type, metrics: { degree: 0, betweenness: 0, closeness: 0, kCore: 0, community: 0, clusteringCoeff: 0}
-  }));
-  const links: GraphLink[] = validLinks.map(r => ({ source: r.source, target: r.target, type: r.relation }));
-
-  // Run Label Propagation (Simple proxy for Leiden/Louvain in JS)
-  const adj = getAdjacency(nodes, links);
-  let labels: Record<string, number> = {};
-  nodes.forEach((n, i) => labels[n.id] = i);
-
-  for (let i = 0; i < 20; i++) { // Iterations
-    const shuffled = [...nodes].sort(() => Math.random() - 0.5);
-    let change = false;
-    for (const n of shuffled) {
-       const neighbors = adj.get(n.id) || [];
-       if (!neighbors.length) continue;
-       const counts: Record<number, number> = {};
-       neighbors.forEach(nb => {
-          const l = labels[nb.id];
-          counts[l] = (counts[l] || 0) + 1;
-       });
-       let bestL = -1, maxC = -1;
-       Object.entries(counts).forEach(([l, c]) => {
-          if (c > maxC) { maxC = c; bestL = Number(l); }
-       });
-       if (bestL !== -1 && labels[n.id] !== bestL) {
-         labels[n.id] = bestL;
-         change = true;
-       }
-    }
-    if (!change) break;
+// 3. Community Detection (Louvain / Leiden)
+// Bipartite: front-back relations, parallel ones adding to the link weight, scored with Barber's modularity.
+// Co-occurrence: back-type items weighted by the front-type entities they share, scored with Newman modularity.
+export const calculateCommunities = (
+  rawEntities: RawEntity[],
+  rawRelations: RawRelation[],
+  config: AnalysisAlgoConfig['community'],
+  aliases?: AliasDictionary
+): GraphData & { communities: CommunityDetectionResult } => {
+  const { frontType, backType, method, network, resolution } = config;
+  let nodes: GraphNode[];
+  let links: GraphLink[];
+  let sideOf: ((id: string) => 'red' | 'blue') | undefined;
+
+  if (network === 'cooccurrence') {
+    ({ nodes, links } = generateCooccurrenceGraph(rawEntities, rawRelations, frontType, backType, aliases));
+  } else {
+    const { entities, relations } = applyAliases({ entities: rawEntities, relations: rawRelations }, aliases);
+    const front = new Set(entities.filter(e => e.type === frontType).map(e => e.name));
+    const back = new Set(entities.filter(e => e.type === backType).map(e => e.name));
+    nodes = entities.filter(e => front.has(e.name) || back.has(e.name)).map(e => ({
+      id: e.name, group: e.type, aliases: e.aliases, metrics: { degree: 0, betweenness: 0, closeness: 0, kCore: 0, clusteringCoeff: 0 }
+    }));
+    const merged = new Map<string, GraphLink>();
+    relations.forEach(r => {
+      const crossing = (front.has(r.source) && back.has(r.target)) || (back.has(r.source) && front.has(r.target));
+      if (!crossing || r.source === r.target) return;
+      const key = [r.source, r.target].sort().join('\u0000');
+      const link = merged.get(key);
+      if (link) link.weight = (link.weight || 1) + 1;
+      else merged.set(key, { source: r.source, target: r.target, type: r.relation, weight: 1 });
+    });
+    links = Array.from(merged.values());
+    // With one type on both ends there is no second mode, so plain modularity applies
+    if (frontType !== backType) sideOf = id => front.has(id) ? 'red' : 'blue';
   }
 
-  // Remap labels to 0..N
-  const uniqueLabels = Array.from(new Set(Object.values(labels)));
-  const labelMap = new Map(uniqueLabels.map((l, i) => [l, i]));
-  
-  nodes.forEach(n => {
-    if (n.metrics) n.metrics.community = labelMap.get(labels[n.id]) || 0;
-  });
+  const linkEnd = (end: GraphLink['source']) => typeof end === 'object' ? (end as GraphNode).id : end as string;
+  const partition = detectCommunities(
+    nodes.map(n => n.id),
+    links.map(l => ({ source: linkEnd(l.source), target: linkEnd(l.target), weight: l.weight ?? 1 })),
+    method, resolution, config.seed, sideOf
+  );
+  const strength = new Map(nodes.map(n => [n.id, 0]));
+  links.forEach(l => [linkEnd(l.source), linkEnd(l.target)].forEach(id => strength.set(id, (strength.get(id) || 0) + (l.weight ?? 1))));
+  nodes.forEach(n => { n.metrics = { ...n.metrics!, community: partition.membership.get(n.id) }; });
+
+  const communities = partition.sizes.map((size, id) => ({
+    id,
+    size,
+    members: nodes.filter(n => n.metrics?.community === id).sort((a, b) => strength.get(b.id)! - strength.get(a.id)!).map(n => n.id)
+  }));
 
-  return { nodes, links };
+  return {
+    nodes, links, metadata: calculateNetworkStatistics(nodes, links),
+    communities: { method, network, resolution, modularity: partition.modularity, communities }
+  };
 };
 
 // 4. Association Rules (Apriori-like)
 export const calculateAssociationRules = (
-  entities: RawEntity[],
-  relations: RawRelation[],
+  rawEntities: RawEntity[],
+  rawRelations: RawRelation[],
   frontType: string,
   backType: string,
   minSupport: number,
-  minConfidence: number
-): { rules: AssociationRuleResult[], nodes: GraphNode[], links: GraphLink[] } => {
+  minConfidence: number,
+  aliases?: AliasDictionary
+): GraphData & { rules: AssociationRuleResult[] } => {
+  const { entities, relations } = applyAliases({ entities: rawEntities, relations: rawRelations }, aliases);
   // We need to define "Transactions". 
   // Assumption: A transaction is an entity that connects both FrontItem and BackItem.
   // E.g. Syndrome X has Symptom A (Front) and uses Formula B (Back).
@@ -340,7 +314,7 @@ export const calculateAssociationRules = (
   });
 
   const totalTrans = transactions.size;
-  if (totalTrans === 0) return { rules: [], nodes: [], links: [] };
+  if (totalTrans === 0) return { rules: [], nodes: [], links: [], metadata: { transactionCount: 0 } };
 
   const itemCounts = new Map<string, number>();
   const pairCounts = new Map<string, number>();
@@ -383,6 +357,7 @@ export const calculateAssociationRules = (
   // Convert to Graph
   const graphNodes = Array.from(validNodes).map(id => ({
     id, group: entities.find(e => e.name === id)?.type || "Unknown",
+    aliases: entities.find(e => e.name === id)?.aliases,
     metrics: { degree: 0, betweenness: 0, closeness: 0, kCore: 0, community: 0, clusteringCoeff: 0 }
   }));
   
@@ -393,106 +368,349 @@ export const calculateAssociationRules = (
     association: { support: r.support, confidence: r.confidence, lift: r.lift, isRule: true }
   }));
 
-  return { rules, nodes: graphNodes, links: graphLinks };
+  return { rules, nodes: graphNodes, links: graphLinks, metadata: { ...calculateNetworkStatistics(graphNodes, graphLinks), transactionCount: totalTrans } };
+};
+
+// 5. Node Metrics
+export const NODE_METRIC_LABEL: Record<NodeMetricKey, string> = {
+  degree: '点度中心性',
+  strength: '加权度',
+  betweenness: '中介中心性',
+  closeness: '接近中心性',
+  kCore: 'k-核',
+  clusteringCoeff: '局部聚类系数',
+  pagerank: 'PageRank',
+  eigenvector: '特征向量中心性'
+};
+
+type NodeMetrics = Record<NodeMetricKey, number>;
+
+// Simple undirected adjacency: parallel links merge into one neighbour whose weight is their sum, self-loops are dropped
+const getSimpleAdjacency = (nodes: GraphNode[], links: GraphLink[]) => {
+  const weights = new Map(nodes.map(n => [n.id, new Map<string, number>()]));
+  links.forEach(l => {
+    const s = typeof l.source === 'object' ? (l.source as GraphNode).id : l.source as string;
+    const t = typeof l.target === 'object' ? (l.target as GraphNode).id : l.target as string;
+    if (s === t || !weights.has(s) || !weights.has(t)) return;
+    const w = l.weight ?? 1;
+    weights.get(s)!.set(t, (weights.get(s)!.get(t) || 0) + w);
+    weights.get(t)!.set(s, (weights.get(t)!.get(s) || 0) + w);
+  });
+  const adj = new Map<string, Array<{id: string, weight: number}>>();
+  weights.forEach((nb, id) => adj.set(id, Array.from(nb, ([other, weight]) => ({ id: other, weight }))));
+  return adj;
+};
+
+// Core number by repeatedly peeling the node of lowest remaining degree
+const calculateKCore = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>) => {
+  const remaining = new Map(nodes.map(n => [n.id, adj.get(n.id)!.length]));
+  const core: Record<string, number> = {};
+  let k = 0;
+  while (remaining.size > 0) {
+    let minId = '', minDeg = Infinity;
+    remaining.forEach((d, id) => { if (d < minDeg) { minDeg = d; minId = id; } });
+    k = Math.max(k, minDeg);
+    core[minId] = k;
+    remaining.delete(minId);
+    adj.get(minId)!.forEach(e => { if (remaining.has(e.id)) remaining.set(e.id, remaining.get(e.id)! - 1); });
+  }
+  return core;
+};
+
+const calculateLocalClustering = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>) => {
+  const neighborSets = new Map(nodes.map(n => [n.id, new Set(adj.get(n.id)!.map(e => e.id))]));
+  const CC: Record<string, number> = {};
+  nodes.forEach(n => {
+    const nb = Array.from(neighborSets.get(n.id)!);
+    const pairs = nb.length * (nb.length - 1) / 2;
+    let closed = 0;
+    nb.forEach((a, i) => { for (let j = i + 1; j < nb.length; j++) if (neighborSets.get(a)!.has(nb[j])) closed++; });
+    CC[n.id] = pairs > 0 ? closed / pairs : 0;
+  });
+  return CC;
+};
+
+// Weighted PageRank on the undirected graph; isolated nodes spread their rank evenly
+const calculatePageRank = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>, damping = 0.85) => {
+  const n = nodes.length;
+  const strength = new Map(nodes.map(node => [node.id, adj.get(node.id)!.reduce((sum, e) => sum + e.weight, 0)]));
+  let rank = new Map(nodes.map(node => [node.id, 1 / n]));
+  for (let iter = 0; iter < 100; iter++) {
+    const dangling = nodes.reduce((sum, node) => strength.get(node.id) === 0 ? sum + rank.get(node.id)! : sum, 0);
+    const next = new Map(nodes.map(node => [node.id, (1 - damping) / n + damping * dangling / n]));
+    nodes.forEach(node => {
+      const s = strength.get(node.id)!;
+      if (s === 0) return;
+      adj.get(node.id)!.forEach(e => next.set(e.id, next.get(e.id)! + damping * rank.get(node.id)! * e.weight / s));
+    });
+    const delta = nodes.reduce((sum, node) => sum + Math.abs(next.get(node.id)! - rank.get(node.id)!), 0);
+    rank = next;
+    if (delta < 1e-8) break;
+  }
+  return Object.fromEntries(rank) as Record<string, number>;
 };
 
-// 5. Centrality Rankings
-export const calculateCentralityRankings = (nodes: GraphNode[], links: GraphLink[]) => {
-   const adj = getAdjacency(nodes, links);
-   
-   // Degree
-   const degrees = nodes.map(n => ({ id: n.id, val: adj.get(n.id)?.length || 0 })).sort((a, b) => b.val - a.val);
-   
-   // Betweenness (Simplified Brandes from previous code)
-   // We reuse the existing CalculateBetweenness function logic
-   const CB = calculateBetweenness(nodes, adj);
-   const betweens = nodes.map(n => ({ id: n.id, val: CB[n.id] })).sort((a, b) => b.val - a.val);
-
-   // Closeness
-   const CC = calculateCloseness(nodes, adj);
-   const closes = nodes.map(n => ({ id: n.id, val: CC[n.id] })).sort((a, b) => b.val - a.val);
+// Power iteration on A + I (same leading eigenvector as A, but converges on bipartite graphs), scaled so the maximum is 1
+const calculateEigenvector = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>) => {
+  let x = new Map(nodes.map(n => [n.id, 1]));
+  for (let iter = 0; iter < 200; iter++) {
+    const next = new Map(nodes.map(n => [n.id, x.get(n.id)! + adj.get(n.id)!.reduce((sum, e) => sum + e.weight * x.get(e.id)!, 0)]));
+    const max = Math.max(...next.values());
+    if (max === 0) break;
+    next.forEach((v, id) => next.set(id, v / max));
+    const delta = nodes.reduce((sum, n) => sum + Math.abs(next.get(n.id)! - x.get(n.id)!), 0);
+    x = next;
+    if (delta < 1e-8) break;
+  }
+  // Graphs without edges have no meaningful eigenvector centrality
+  const hasEdges = nodes.some(n => adj.get(n.id)!.length > 0);
+  return Object.fromEntries(nodes.map(n => [n.id, hasEdges ? x.get(n.id)! : 0])) as Record<string, number>;
+};
+
+export const PATH_WEIGHTING_LABEL: Record<PathWeighting, string> = {
+  none: '不加权',
+  inverse: '1 / 权重',
+  negLog: '1 + ln(最大权重 / 权重)'
+};
+
+export const DEFAULT_CENTRALITY_OPTIONS: CentralityOptions = { weighting: 'none', normalized: false };
+
+export const calculateNodeMetrics = (nodes: GraphNode[], links: GraphLink[], options: CentralityOptions = DEFAULT_CENTRALITY_OPTIONS): Record<string, NodeMetrics> => {
+  const adj = getSimpleAdjacency(nodes, links);
+  const { betweenness, closeness } = calculateShortestPathCentralities(nodes, adj, options);
+  const kCore = calculateKCore(nodes, adj);
+  const clustering = calculateLocalClustering(nodes, adj);
+  const pagerank = nodes.length > 0 ? calculatePageRank(nodes, adj) : {};
+  const eigenvector = calculateEigenvector(nodes, adj);
+  return Object.fromEntries(nodes.map(n => [n.id, {
+    degree: adj.get(n.id)!.length,
+    strength: adj.get(n.id)!.reduce((sum, e) => sum + e.weight, 0),
+    betweenness: betweenness[n.id],
+    closeness: closeness[n.id],
+    kCore: kCore[n.id],
+    clusteringCoeff: clustering[n.id],
+    pagerank: pagerank[n.id],
+    eigenvector: eigenvector[n.id]
+  }]));
+};
+
+// Fills every node metric in place, keeping results such as community labels that other algorithms stored
+export const attachNodeMetrics = (data: GraphData, options?: CentralityOptions): GraphData => {
+  const metrics = calculateNodeMetrics(data.nodes, data.links, options);
+  data.nodes.forEach(n => { n.metrics = { ...n.metrics, ...metrics[n.id] }; });
+  return data;
+};
 
+// Centrality Rankings
+export const calculateCentralityRankings = (nodes: GraphNode[], links: GraphLink[], options?: CentralityOptions) => {
+   const metrics = calculateNodeMetrics(nodes, links, options);
+   const ranking = (key: NodeMetricKey) => nodes.map(n => ({ id: n.id, val: metrics[n.id][key] })).sort((a, b) => b.val - a.val);
+
+   // Full rankings; the on-screen panel shows the top 5, result exports list every node
    return {
-     degree: degrees.slice(0, 5),
-     betweenness: betweens.slice(0, 5),
-     closeness: closes.slice(0, 5)
+     degree: ranking('degree'),
+     betweenness: ranking('betweenness'),
+     closeness: ranking('closeness')
    };
 };
 
+// 6. Global Network Statistics
+export const calculateNetworkStatistics = (nodes: GraphNode[], links: GraphLink[]): NetworkMetadata => {
+  const neighbors = new Map(nodes.map(n => [n.id, new Set<string>()]));
+  links.forEach(l => {
+    const s = typeof l.source === 'object' ? (l.source as GraphNode).id : l.source as string;
+    const t = typeof l.target === 'object' ? (l.target as GraphNode).id : l.target as string;
+    if (s === t || !neighbors.has(s) || !neighbors.has(t)) return;
+    neighbors.get(s)!.add(t);
+    neighbors.get(t)!.add(s);
+  });
+  const degree = (id: string) => neighbors.get(id)!.size;
+  const n = nodes.length;
+  const m = nodes.reduce((sum, node) => sum + degree(node.id), 0) / 2;
+
+  // Clustering: closed pairs among each node's neighbours
+  let closedTriplets = 0, connectedTriplets = 0, localSum = 0;
+  nodes.forEach(node => {
+    const nb = Array.from(neighbors.get(node.id)!);
+    const pairs = nb.length * (nb.length - 1) / 2;
+    if (pairs === 0) return;
+    let closed = 0;
+    nb.forEach((a, i) => { for (let j = i + 1; j < nb.length; j++) if (neighbors.get(a)!.has(nb[j])) closed++; });
+    closedTriplets += closed;
+    connectedTriplets += pairs;
+    localSum += closed / pairs;
+  });
+
+  // Paths and components: BFS from every node
+  const componentOf = new Map<string, number>();
+  const componentSizes: number[] = [];
+  let pathSum = 0, pathCount = 0, diameter = 0;
+  nodes.forEach(start => {
+    const dist = new Map([[start.id, 0]]);
+    const queue = [start.id];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      neighbors.get(v)!.forEach(w => {
+        if (!dist.has(w)) { dist.set(w, dist.get(v)! + 1); queue.push(w); }
+      });
+    }
+    dist.forEach(d => { if (d > 0) { pathSum += d; pathCount++; if (d > diameter) diameter = d; } });
+    if (!componentOf.has(start.id)) {
+      dist.forEach((_, id) => componentOf.set(id, componentSizes.length));
+      componentSizes.push(dist.size);
+    }
+  });
+
+  const histogram = new Map<number, number>();
+  nodes.forEach(node => histogram.set(degree(node.id), (histogram.get(degree(node.id)) || 0) + 1));
+
+  // Degree assortativity: Pearson correlation of the degrees at either end of each edge (Newman 2002)
+  let sumProduct = 0, sumHalf = 0, sumSquares = 0;
+  neighbors.forEach((nb, id) => nb.forEach(other => {
+    if (id > other) return; // Each undirected edge once
+    const j = degree(id), k = degree(other);
+    sumProduct += j * k;
+    sumHalf += (j + k) / 2;
+    sumSquares += (j * j + k * k) / 2;
+  }));
+  const meanHalf = m > 0 ? sumHalf / m : 0;
+  const variance = m > 0 ? sumSquares / m - meanHalf * meanHalf : 0;
+
+  return {
+    nodeCount: n,
+    edgeCount: m,
+    density: n > 1 ? 2 * m / (n * (n - 1)) : 0,
+    avgDegree: n > 0 ? 2 * m / n : 0,
+    diameter,
+    avgPathLength: pathCount > 0 ? pathSum / pathCount : 0,
+    globalClusteringCoeff: connectedTriplets > 0 ? closedTriplets / connectedTriplets : 0,
+    avgClusteringCoeff: n > 0 ? localSum / n : 0,
+    componentCount: componentSizes.length,
+    largestComponentSize: Math.max(0, ...componentSizes),
+    assortativity: variance > 1e-12 ? (sumProduct / m - meanHalf * meanHalf) / variance : undefined,
+    degreeDistribution: Array.from(histogram).sort((a, b) => a[0] - b[0]).map(([degree, count]) => ({ degree, count }))
+  };
+};
+
 
 // --- Internal Utils reused ---
-const calculateBetweenness = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>) => {
+
+// Path length of a link from its weight; stronger co-occurrence means a shorter path
+const pathLength = (weighting: PathWeighting, maxWeight: number) => (w: number) =>
+  weighting === 'inverse' ? 1 / w : weighting === 'negLog' ? 1 + Math.log(maxWeight / w) : 1;
+
+// Binary min-heap of [distance, id] used by Dijkstra
+const heapPush = (heap: [number, string][], item: [number, string]) => {
+  heap.push(item);
+  for (let i = heap.length - 1; i > 0;) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: [number, string][]) => {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    for (let i = 0; ;) {
+      const l = 2 * i + 1, r = l + 1;
+      let min = i;
+      if (l < heap.length && heap[l][0] < heap[min][0]) min = l;
+      if (r < heap.length && heap[r][0] < heap[min][0]) min = r;
+      if (min === i) break;
+      [heap[min], heap[i]] = [heap[i], heap[min]];
+      i = min;
+    }
+  }
+  return top;
+};
+
+// Brandes betweenness and closeness from one Dijkstra per source (BFS order when all lengths are 1).
+// Betweenness counts each unordered pair once; closeness is reachable nodes over total distance to them.
+const calculateShortestPathCentralities = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>, options: CentralityOptions) => {
+  const maxWeight = Math.max(1e-12, ...Array.from(adj.values()).flatMap(edges => edges.map(e => e.weight)));
+  const length = pathLength(options.weighting, maxWeight);
+  const EPS = 1e-9;
+  const n = nodes.length;
   const CB: Record<string, number> = {};
-  nodes.forEach(n => CB[n.id] = 0);
+  const CC: Record<string, number> = {};
+  nodes.forEach(v => CB[v.id] = 0);
+
   nodes.forEach(s => {
     const S: string[] = [];
     const P: Record<string, string[]> = {};
     const sigma: Record<string, number> = {};
-    const d: Record<string, number> = {};
-    nodes.forEach(t => { P[t.id] = []; sigma[t.id] = 0; d[t.id] = -1; });
-    sigma[s.id] = 1; d[s.id] = 0;
-    const Q: string[] = [s.id];
-    while (Q.length > 0) {
-      const v = Q.shift()!;
+    const dist: Record<string, number> = {};
+    const done = new Set<string>();
+    nodes.forEach(t => { P[t.id] = []; sigma[t.id] = 0; dist[t.id] = Infinity; });
+    sigma[s.id] = 1; dist[s.id] = 0;
+    const heap: [number, string][] = [[0, s.id]];
+    while (heap.length > 0) {
+      const [d, v] = heapPop(heap);
+      if (done.has(v) || d > dist[v]) continue;
+      done.add(v);
       S.push(v);
       adj.get(v)?.forEach(edge => {
         const w = edge.id;
-        if (d[w] < 0) { Q.push(w); d[w] = d[v] + 1; }
-        if (d[w] === d[v] + 1) { sigma[w] += sigma[v]; P[w].push(v); }
+        const nd = dist[v] + length(edge.weight);
+        if (nd < dist[w] - EPS * Math.max(1, nd)) {
+          dist[w] = nd; sigma[w] = sigma[v]; P[w] = [v];
+          heapPush(heap, [nd, w]);
+        } else if (Math.abs(nd - dist[w]) <= EPS * Math.max(1, nd)) {
+          sigma[w] += sigma[v]; P[w].push(v);
+        }
       });
     }
+
     const delta: Record<string, number> = {};
-    nodes.forEach(v => delta[v.id] = 0);
-    while (S.length > 0) {
-      const w = S.pop()!;
+    S.forEach(v => delta[v] = 0);
+    for (let i = S.length - 1; i >= 0; i--) {
+      const w = S[i];
       P[w].forEach(v => delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]));
       if (w !== s.id) CB[w] += delta[w];
     }
-  });
-  return CB;
-};
 
-const calculateCloseness = (nodes: GraphNode[], adj: Map<string, Array<{id: string, weight: number}>>) => {
-  const CC: Record<string, number> = {};
-  nodes.forEach(node => {
-    const q: {id: string, d: number}[] = [{id: node.id, d: 0}];
-    const visited = new Set([node.id]);
-    let total = 0, count = 0;
-    while(q.length) {
-      const {id, d} = q.shift()!;
-      if(d>0) { total += d; count++; }
-      adj.get(id)?.forEach(n => {
-         if(!visited.has(n.id)) { visited.add(n.id); q.push({id: n.id, d: d+1}); }
-      });
-    }
-    CC[node.id] = count > 0 ? count/total : 0;
+    const reachable = S.length - 1;
+    const total = S.reduce((sum, v) => sum + dist[v], 0);
+    // Raw closeness is 1/Σd; normalized, r/Σd scaled by the reachable share r/(n-1) (Wasserman-Faust)
+    if (reachable === 0 || total <= 0) CC[s.id] = 0;
+    else CC[s.id] = options.normalized && n > 1 ? (reachable / total) * (reachable / (n - 1)) : 1 / total;
   });
-  return CC;
+
+  // Each pair was counted from both ends
+  const scale = options.normalized && n > 2 ? 1 / ((n - 1) * (n - 2)) : 0.5;
+  nodes.forEach(v => CB[v.id] *= scale);
+  return { betweenness: CB, closeness: CC };
 };
 
 // Main Runner
-export const runAlgorithm = (type: string, data: GraphData, params: any, rawData?: { entities: RawEntity[], relations: RawRelation[] }) => {
+export const runAlgorithm = (type: string, data: GraphData, params: any, rawData?: { entities: RawEntity[], relations: RawRelation[], aliases?: AliasDictionary }) => {
   if (type === 'HIERARCHICAL') {
-    const tree = calculateHierarchicalTree(data.nodes, data.links, params);
-    return { tree };
+    const memberships = params.basis === 'membership' && rawData
+      ? containerMemberships(applyAliases({ entities: rawData.entities, relations: rawData.relations }, rawData.aliases), params.containerType, params.itemType).containerToItems
+      : undefined;
+    return calculateHierarchicalTree(data.nodes, data.links, params, memberships);
   }
   if (type === 'KMEANS' && rawData) {
-     return calculateVectorKMeans(rawData.entities, rawData.relations, params.targetType, params.k);
+     return calculateVectorKMeans(rawData.entities, rawData.relations, params, rawData.aliases);
   }
   if (type === 'COMMUNITY' && rawData) {
-     return calculateBipartiteCommunity(rawData.entities, rawData.relations, params.frontType, params.backType);
+     return calculateCommunities(rawData.entities, rawData.relations, params, rawData.aliases);
   }
   if (type === 'ASSOCIATION' && rawData) {
-     return calculateAssociationRules(rawData.entities, rawData.relations, params.frontType, params.backType, params.minSupport, params.minConfidence);
+     return calculateAssociationRules(rawData.entities, rawData.relations, params.frontType, params.backType, params.minSupport, params.minConfidence, rawData.aliases);
   }
   if (type === 'CENTRALITY') {
-    return calculateCentralityRankings(data.nodes, data.links);
+    return calculateCentralityRankings(data.nodes, data.links, params.centrality);
   }
   return {};
 };
 
-// Co-occurrence Generator (Still needed for basic analysis graph)
-export const generateCooccurrenceGraph = (entities: RawEntity[], relations: RawRelation[], containerType: string, itemType: string): GraphData => {
+// Container × item incidence, either relation direction; items are listed in order of first appearance
+const containerMemberships = ({ entities, relations }: { entities: RawEntity[], relations: RawRelation[] }, containerType: string, itemType: string) => {
   const containerToItems = new Map<string, Set<string>>();
   const allItems = new Set<string>();
   relations.forEach(r => {
@@ -512,8 +730,15 @@ export const generateCooccurrenceGraph = (entities: RawEntity[], relations: RawR
        allItems.add(r.source);
      }
   });
+  return { containerToItems, allItems };
+};
+
+// Co-occurrence Generator (Still needed for basic analysis graph)
+export const generateCooccurrenceGraph = (rawEntities: RawEntity[], rawRelations: RawRelation[], containerType: string, itemType: string, aliases?: AliasDictionary): GraphData => {
+  const { entities, relations } = applyAliases({ entities: rawEntities, relations: rawRelations }, aliases);
+  const { containerToItems, allItems } = containerMemberships({ entities, relations }, containerType, itemType);
 
-  const nodes: GraphNode[] = Array.from(allItems).map(id => ({ id, group: itemType }));
+  const nodes: GraphNode[] = Array.from(allItems).map(id => ({ id, group: itemType, aliases: entities.find(e => e.name === id)?.aliases }));
   const edgesMap = new Map<string, number>();
   
   containerToItems.forEach(items => {
@@ -532,5 +757,5 @@ export const generateCooccurrenceGraph = (entities: RawEntity[], relations: RawR
     links.push({ source: s, target: t, type: 'co-occur', weight: w });
   });
 
-  return { nodes, links };
+  return { nodes, links, metadata: calculateNetworkStatistics(nodes, links) };
 };
\ No newline at end of file
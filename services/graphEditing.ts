@@ -0,0 +1,42 @@
+import { RawEntity, RawRelation } from '../types';
+
+// Pure edit operations behind the data grids; each returns new arrays for the edit history
+
+// Rename an entity and every relation endpoint that refers to it
+export const renameEntity = (
+  entities: RawEntity[],
+  relations: RawRelation[],
+  oldName: string,
+  newName: string
+): { entities: RawEntity[], relations: RawRelation[] } => {
+  const name = newName.trim();
+  if (!name) throw new Error("实体名称不能为空");
+  if (name === oldName) return { entities, relations };
+  if (entities.some(e => e.name === name)) throw new Error(`实体「${name}」已存在，如需合并请使用疑似重复检测`);
+
+  return {
+    entities: entities.map(e => e.name === oldName ? { ...e, name } : e),
+    relations: relations.map(r => (r.source === oldName || r.target === oldName)
+      ? { ...r, source: r.source === oldName ? name : r.source, target: r.target === oldName ? name : r.target }
+      : r)
+  };
+};
+
+export const retypeEntities = (entities: RawEntity[], names: Set<string>, type: string): RawEntity[] =>
+  entities.map(e => names.has(e.name) && e.type !== type ? { ...e, type } : e);
+
+// Deleting an entity also deletes the relations that would otherwise dangle
+export const deleteEntities = (
+  entities: RawEntity[],
+  relations: RawRelation[],
+  names: Set<string>
+): { entities: RawEntity[], relations: RawRelation[] } => ({
+  entities: entities.filter(e => !names.has(e.name)),
+  relations: relations.filter(r => !names.has(r.source) && !names.has(r.target))
+});
+
+export const updateRelation = (relations: RawRelation[], index: number, patch: Partial<RawRelation>): RawRelation[] =>
+  relations.map((r, i) => i === index ? { ...r, ...patch } : r);
+
+export const deleteRelations = (relations: RawRelation[], indices: Set<number>): RawRelation[] =>
+  relations.filter((_, i) => !indices.has(i));
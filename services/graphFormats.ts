@@ -0,0 +1,413 @@
+import { GraphData, GraphNode, GraphLink, RawEntity, RawRelation, ExtractionResult } from '../types';
+import { createProvenance } from './provenance';
+import { NODE_METRIC_LABEL } from './graphAnalysis';
+
+export const DEFAULT_RDF_NAMESPACE = 'http://example.org/tcmkg/';
+
+export type GraphFileFormat = 'graphml' | 'gexf' | 'turtle' | 'jsonld';
+
+export const GRAPH_FILE_EXTENSION: Record<GraphFileFormat, string> = {
+  graphml: '.graphml',
+  gexf: '.gexf',
+  turtle: '.ttl',
+  jsonld: '.jsonld'
+};
+
+const UNDEFINED_TYPE = '未定义';
+const DEFAULT_EDGE_TYPE = '关联';
+
+const endpointId = (end: GraphLink['source']) => typeof end === 'object' ? (end as GraphNode).id : String(end);
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Attribute Columns ---
+
+type AttributeType = 'string' | 'double' | 'int';
+
+interface AttributeColumn<T> {
+  id: string;
+  title: string;
+  type: AttributeType;
+  value: (item: T) => string | number | undefined;
+}
+
+// Columns present on at least one node: type, aliases, analysis metrics, cluster ids and imported properties
+const nodeColumns = (nodes: GraphNode[]): AttributeColumn<GraphNode>[] => {
+  const columns: AttributeColumn<GraphNode>[] = [
+    { id: 'group', title: 'group', type: 'string', value: n => n.group },
+    { id: 'aliases', title: 'aliases', type: 'string', value: n => n.aliases?.join(';') || undefined }
+  ];
+  const metricKeys = Array.from(new Set(nodes.flatMap(n => Object.keys(n.metrics || {}))));
+  metricKeys.forEach(key => columns.push({
+    id: `m_${key}`, title: key, type: key === 'community' || key === 'kCore' ? 'int' : 'double',
+    value: n => n.metrics?.[key]
+  }));
+  (['kmeans', 'hierarchical'] as const).forEach(key => {
+    if (nodes.some(n => n.clusters?.[key] !== undefined)) {
+      columns.push({ id: `c_${key}`, title: key, type: 'int', value: n => n.clusters?.[key] });
+    }
+  });
+  Array.from(new Set(nodes.flatMap(n => Object.keys(n.properties || {})))).forEach((key, i) => columns.push({
+    id: `p${i}`, title: key, type: 'string', value: n => n.properties?.[key]
+  }));
+  return columns.filter(c => nodes.some(n => c.value(n) !== undefined));
+};
+
+const edgeColumns = (links: GraphLink[]): AttributeColumn<GraphLink>[] => {
+  const columns: AttributeColumn<GraphLink>[] = [
+    { id: 'type', title: 'type', type: 'string', value: l => l.type },
+    { id: 'support', title: 'support', type: 'double', value: l => l.association?.support },
+    { id: 'confidence', title: 'confidence', type: 'double', value: l => l.association?.confidence },
+    { id: 'lift', title: 'lift', type: 'double', value: l => l.association?.lift }
+  ];
+  Array.from(new Set(links.flatMap(l => Object.keys(l.properties || {})))).forEach((key, i) => columns.push({
+    id: `p${i}`, title: key, type: 'string', value: l => l.properties?.[key]
+  }));
+  return columns.filter(c => links.some(l => c.value(l) !== undefined));
+};
+
+// --- GraphML ---
+
+// Positions and colours are written as plain attributes, which both Gephi and Cytoscape pick up
+export const toGraphML = (graph: GraphData, directed = true): string => {
+  const nColumns = nodeColumns(graph.nodes);
+  const eColumns = edgeColumns(graph.links);
+  const hasPosition = graph.nodes.some(n => n.x !== undefined);
+  const hasWeight = graph.links.some(l => l.weight !== undefined);
+
+  const keyTypes: Record<AttributeType, string> = { string: 'string', double: 'double', int: 'int' };
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    ...nColumns.map(c => `  <key id="n_${c.id}" for="node" attr.name="${xmlEscape(c.title)}" attr.type="${keyTypes[c.type]}"/>`),
+    ...(hasPosition ? ['  <key id="x" for="node" attr.name="x" attr.type="double"/>', '  <key id="y" for="node" attr.name="y" attr.type="double"/>'] : []),
+    ...(graph.nodes.some(n => n._color) ? ['  <key id="color" for="node" attr.name="color" attr.type="string"/>'] : []),
+    ...eColumns.map(c => `  <key id="e_${c.id}" for="edge" attr.name="${xmlEscape(c.title)}" attr.type="${keyTypes[c.type]}"/>`),
+    ...(hasWeight ? ['  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>'] : []),
+    `  <graph id="G" edgedefault="${directed ? 'directed' : 'undirected'}">`
+  ];
+
+  graph.nodes.forEach(n => {
+    lines.push(`    <node id="${xmlEscape(n.id)}">`);
+    lines.push(`      <data key="label">${xmlEscape(n.id)}</data>`);
+    nColumns.forEach(c => {
+      const value = c.value(n);
+      if (value !== undefined) lines.push(`      <data key="n_${c.id}">${xmlEscape(String(value))}</data>`);
+    });
+    if (hasPosition && n.x !== undefined && n.y !== undefined) {
+      lines.push(`      <data key="x">${n.x.toFixed(2)}</data>`, `      <data key="y">${n.y.toFixed(2)}</data>`);
+    }
+    if (n._color) lines.push(`      <data key="color">${xmlEscape(n._color)}</data>`);
+    lines.push('    </node>');
+  });
+
+  graph.links.forEach((l, i) => {
+    lines.push(`    <edge id="e${i}" source="${xmlEscape(endpointId(l.source))}" target="${xmlEscape(endpointId(l.target))}">`);
+    eColumns.forEach(c => {
+      const value = c.value(l);
+      if (value !== undefined) lines.push(`      <data key="e_${c.id}">${xmlEscape(String(value))}</data>`);
+    });
+    if (l.weight !== undefined) lines.push(`      <data key="weight">${l.weight}</data>`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+};
+
+// --- GEXF ---
+
+const hexToRgb = (hex: string) => {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return m ? { r: parseInt(m[1], 16), g: parseInt(m[2], 16), b: parseInt(m[3], 16) } : null;
+};
+
+export const toGEXF = (graph: GraphData, directed = true): string => {
+  const nColumns = nodeColumns(graph.nodes);
+  const eColumns = edgeColumns(graph.links).filter(c => c.id !== 'type'); // The edge type is GEXF's own label
+  const gexfTypes: Record<AttributeType, string> = { string: 'string', double: 'double', int: 'integer' };
+  const attributes = <T>(cls: 'node' | 'edge', columns: AttributeColumn<T>[]) => columns.length === 0 ? [] : [
+    `    <attributes class="${cls}">`,
+    ...columns.map(c => `      <attribute id="${c.id}" title="${xmlEscape(c.title)}" type="${gexfTypes[c.type]}"/>`),
+    '    </attributes>'
+  ];
+  const attvalues = <T>(columns: AttributeColumn<T>[], item: T, indent: string) => {
+    const values = columns.map(c => ({ c, value: c.value(item) })).filter(({ value }) => value !== undefined);
+    if (values.length === 0) return [];
+    return [
+      `${indent}<attvalues>`,
+      ...values.map(({ c, value }) => `${indent}  <attvalue for="${c.id}" value="${xmlEscape(String(value))}"/>`),
+      `${indent}</attvalues>`
+    ];
+  };
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>中医知识图谱构建器</creator></meta>`,
+    `  <graph mode="static" defaultedgetype="${directed ? 'directed' : 'undirected'}">`,
+    ...attributes('node', nColumns),
+    ...attributes('edge', eColumns),
+    '    <nodes>'
+  ];
+
+  graph.nodes.forEach(n => {
+    lines.push(`      <node id="${xmlEscape(n.id)}" label="${xmlEscape(n.id)}">`);
+    lines.push(...attvalues(nColumns, n, '        '));
+    const rgb = n._color ? hexToRgb(n._color) : null;
+    if (rgb) lines.push(`        <viz:color r="${rgb.r}" g="${rgb.g}" b="${rgb.b}"/>`);
+    if (n.x !== undefined && n.y !== undefined) lines.push(`        <viz:position x="${n.x.toFixed(2)}" y="${(-n.y).toFixed(2)}" z="0.0"/>`);
+    if (n._radius !== undefined) lines.push(`        <viz:size value="${n._radius.toFixed(2)}"/>`);
+    lines.push('      </node>');
+  });
+  lines.push('    </nodes>', '    <edges>');
+
+  graph.links.forEach((l, i) => {
+    const weight = l.weight !== undefined ? ` weight="${l.weight}"` : '';
+    lines.push(`      <edge id="e${i}" source="${xmlEscape(endpointId(l.source))}" target="${xmlEscape(endpointId(l.target))}" label="${xmlEscape(l.type)}"${weight}>`);
+    lines.push(...attvalues(eColumns, l, '        '));
+    lines.push('      </edge>');
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+};
+
+// --- RDF (Turtle / JSON-LD) ---
+
+// IRIs may carry Chinese characters as-is; only characters that would break the IRI are percent-encoded
+const iriSegment = (name: string) => name.replace(/[\s<>"{}|\\^`#%?/]/g, c => encodeURIComponent(c));
+const normalizeNamespace = (ns: string) => /[/#]$/.test(ns.trim()) ? ns.trim() : `${ns.trim()}/`;
+
+const turtleString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r/g, '\\r').replace(/\n/g, '\\n')}"`;
+
+// Entities become `entity/<name>` resources typed with `class/<type>`; relations become `relation/<name>` properties.
+// Relation properties would need reification and are left out.
+export const toTurtle = (entities: RawEntity[], relations: RawRelation[], namespace = DEFAULT_RDF_NAMESPACE): string => {
+  const ns = normalizeNamespace(namespace);
+  const types = Array.from(new Set(entities.map(e => e.type)));
+  const relationNames = Array.from(new Set(relations.map(r => r.relation)));
+  const propertyKeys = Array.from(new Set(entities.flatMap(e => Object.keys(e.properties || {}))));
+  const entity = (name: string) => `<${ns}entity/${iriSegment(name)}>`;
+
+  const lines = [
+    `@prefix tcm: <${ns}> .`,
+    '@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .',
+    '@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .',
+    '@prefix skos: <http://www.w3.org/2004/02/skos/core#> .',
+    ''
+  ];
+  types.forEach(t => lines.push(`<${ns}class/${iriSegment(t)}> a rdfs:Class ; rdfs:label ${turtleString(t)}@zh .`));
+  relationNames.forEach(r => lines.push(`<${ns}relation/${iriSegment(r)}> a rdf:Property ; rdfs:label ${turtleString(r)}@zh .`));
+  propertyKeys.forEach(k => lines.push(`<${ns}property/${iriSegment(k)}> a rdf:Property ; rdfs:label ${turtleString(k)}@zh .`));
+  lines.push('');
+
+  entities.forEach(e => {
+    const statements = [`a <${ns}class/${iriSegment(e.type)}>`, `rdfs:label ${turtleString(e.name)}@zh`];
+    e.aliases?.forEach(a => statements.push(`skos:altLabel ${turtleString(a)}@zh`));
+    Object.entries(e.properties || {}).forEach(([k, v]) => statements.push(`<${ns}property/${iriSegment(k)}> ${turtleString(v)}`));
+    lines.push(`${entity(e.name)} ${statements.join(' ;\n    ')} .`);
+  });
+  lines.push('');
+
+  relations.forEach(r => lines.push(`${entity(r.source)} <${ns}relation/${iriSegment(r.relation)}> ${entity(r.target)} .`));
+  return lines.join('\n') + '\n';
+};
+
+// Compact JSON-LD against `@base`/`@vocab` set to the namespace, mirroring the Turtle layout
+export const toJsonLd = (entities: RawEntity[], relations: RawRelation[], namespace = DEFAULT_RDF_NAMESPACE): string => {
+  const ns = normalizeNamespace(namespace);
+  const outgoing = new Map<string, Record<string, { '@id': string }[]>>();
+  relations.forEach(r => {
+    const byRelation = outgoing.get(r.source) || {};
+    const key = `relation/${iriSegment(r.relation)}`;
+    byRelation[key] = [...(byRelation[key] || []), { '@id': `entity/${iriSegment(r.target)}` }];
+    outgoing.set(r.source, byRelation);
+  });
+
+  // Relation sources without an entity record still need a node to carry their edges
+  const nodes: RawEntity[] = [...entities];
+  const known = new Set(entities.map(e => e.name));
+  relations.forEach(r => { if (!known.has(r.source)) { known.add(r.source); nodes.push({ type: UNDEFINED_TYPE, name: r.source }); } });
+
+  const graph = nodes.map(e => ({
+    '@id': `entity/${iriSegment(e.name)}`,
+    '@type': `class/${iriSegment(e.type)}`,
+    label: e.name,
+    ...(e.aliases && e.aliases.length > 0 ? { altLabel: e.aliases } : {}),
+    ...Object.fromEntries(Object.entries(e.properties || {}).map(([k, v]) => [`property/${iriSegment(k)}`, v])),
+    ...outgoing.get(e.name)
+  }));
+
+  return JSON.stringify({
+    '@context': {
+      '@base': ns,
+      '@vocab': ns,
+      '@language': 'zh',
+      rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+      skos: 'http://www.w3.org/2004/02/skos/core#',
+      label: 'rdfs:label',
+      altLabel: 'skos:altLabel'
+    },
+    '@graph': graph
+  }, null, 2);
+};
+
+// --- Import ---
+
+const parseXml = (text: string, rootName: string): Document => {
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('文件不是有效的 XML');
+  if (doc.documentElement.localName !== rootName) throw new Error(`缺少 <${rootName}> 根元素`);
+  return doc;
+};
+
+const childrenByName = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+// Attribute names read as the entity type or relation name, in order of preference
+const TYPE_KEYS = ['group', 'type', 'category', 'label_type'];
+const RELATION_KEYS = ['type', 'relation', 'label', 'interaction'];
+const NAME_KEYS = ['label', 'name'];
+
+// Exported analysis metrics are not part of the knowledge graph and are left out on import. Node metrics come
+// from NODE_METRIC_LABEL so a newly added metric is skipped as well.
+const ANALYSIS_KEYS = new Set(['aliases', 'x', 'y', 'color', 'weight', 'support', 'confidence', 'lift',
+  'community', 'kmeans', 'hierarchical', ...Object.keys(NODE_METRIC_LABEL)]);
+
+const toRecords = (
+  nodes: { id: string, attrs: Record<string, string> }[],
+  edges: { source: string, target: string, label?: string, attrs: Record<string, string> }[],
+  document: string | undefined
+): ExtractionResult => {
+  const provenance = () => createProvenance('file', { document });
+  const pick = (attrs: Record<string, string>, keys: string[]) => keys.map(k => attrs[k]).find(v => v && v.trim())?.trim();
+  const rest = (attrs: Record<string, string>, used: string[]) => {
+    const props = Object.fromEntries(Object.entries(attrs).filter(([k, v]) => !used.includes(k) && !ANALYSIS_KEYS.has(k) && v.trim()));
+    return Object.keys(props).length > 0 ? props : undefined;
+  };
+
+  const nameById = new Map<string, string>();
+  const entities: RawEntity[] = nodes.map(n => {
+    const name = pick(n.attrs, NAME_KEYS) || n.id;
+    nameById.set(n.id, name);
+    const aliases = n.attrs.aliases?.split(';').map(a => a.trim()).filter(Boolean);
+    return {
+      type: pick(n.attrs, TYPE_KEYS) || UNDEFINED_TYPE,
+      name,
+      provenance: provenance(),
+      aliases: aliases && aliases.length > 0 ? aliases : undefined,
+      properties: rest(n.attrs, [...NAME_KEYS, ...TYPE_KEYS])
+    };
+  });
+  const relations: RawRelation[] = edges.map(e => ({
+    source: nameById.get(e.source) || e.source,
+    relation: e.label?.trim() || pick(e.attrs, RELATION_KEYS) || DEFAULT_EDGE_TYPE,
+    target: nameById.get(e.target) || e.target,
+    provenance: provenance(),
+    properties: rest(e.attrs, RELATION_KEYS)
+  }));
+  return { entities, relations };
+};
+
+export const parseGraphML = (text: string, document?: string): ExtractionResult => {
+  const doc = parseXml(text, 'graphml');
+  const keyNames = new Map(childrenByName(doc, 'key').map(k => [k.getAttribute('id') || '', k.getAttribute('attr.name') || k.getAttribute('id') || '']));
+  const data = (el: Element) => Object.fromEntries(
+    Array.from(el.children).filter(c => c.localName === 'data').map(d => [keyNames.get(d.getAttribute('key') || '') || d.getAttribute('key') || '', d.textContent || ''])
+  );
+  return toRecords(
+    childrenByName(doc, 'node').map(n => ({ id: n.getAttribute('id') || '', attrs: data(n) })),
+    childrenByName(doc, 'edge').map(e => ({ source: e.getAttribute('source') || '', target: e.getAttribute('target') || '', attrs: data(e) })),
+    document
+  );
+};
+
+export const parseGEXF = (text: string, document?: string): ExtractionResult => {
+  const doc = parseXml(text, 'gexf');
+  const titles = new Map<string, string>();
+  childrenByName(doc, 'attributes').forEach(group => childrenByName(group, 'attribute').forEach(a => {
+    titles.set(`${group.getAttribute('class')}:${a.getAttribute('id')}`, a.getAttribute('title') || a.getAttribute('id') || '');
+  }));
+  const attvalues = (el: Element, cls: 'node' | 'edge') => Object.fromEntries(
+    childrenByName(el, 'attvalue').map(v => [titles.get(`${cls}:${v.getAttribute('for')}`) || v.getAttribute('for') || '', v.getAttribute('value') || ''])
+  );
+  return toRecords(
+    childrenByName(doc, 'node').map(n => ({ id: n.getAttribute('id') || '', attrs: { ...attvalues(n, 'node'), label: n.getAttribute('label') || '' } })),
+    childrenByName(doc, 'edge').map(e => ({
+      source: e.getAttribute('source') || '', target: e.getAttribute('target') || '', label: e.getAttribute('label') || undefined, attrs: attvalues(e, 'edge')
+    })),
+    document
+  );
+};
+
+type JsonObject = Record<string, unknown>;
+type JsonLdNode = JsonObject & { '@id': string };
+
+const isJsonObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isJsonLdNode = (value: unknown): value is JsonLdNode => isJsonObject(value) && typeof value['@id'] === 'string' && value['@id'] !== '';
+// JSON-LD allows a single value wherever a list is expected
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+
+// Reads the compact layout written by `toJsonLd` (and hand-written documents following it):
+// values that are node references become relations, literals become properties.
+export const parseJsonLd = (text: string, document?: string): ExtractionResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  const nodes: unknown[] = Array.isArray(raw) ? raw : isJsonObject(raw) && Array.isArray(raw['@graph']) ? raw['@graph'] : [raw];
+  const lastSegment = (iri: string) => {
+    const segment = iri.split(/[/#:]/).filter(Boolean).pop() || iri;
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  };
+  const literal = (v: unknown): string | undefined => isJsonObject(v) ? (v['@value'] !== undefined ? String(v['@value']) : undefined) : String(v);
+
+  const labelled = nodes.filter(isJsonLdNode);
+  const nameById = new Map<string, string>(labelled.map(n => {
+    const label = asList(n.label ?? n['rdfs:label']).map(literal).find(Boolean);
+    return [n['@id'], label || lastSegment(n['@id'])];
+  }));
+
+  const nodeRecords = labelled.map(n => ({ id: n['@id'], attrs: {} as Record<string, string> }));
+  const edges: { source: string, target: string, label: string, attrs: Record<string, string> }[] = [];
+  labelled.forEach((n, i) => {
+    const attrs = nodeRecords[i].attrs;
+    attrs.name = nameById.get(n['@id'])!;
+    const type = asList(n['@type'])[0];
+    if (type) attrs.type = lastSegment(String(type));
+    const altLabels = asList(n.altLabel ?? n['skos:altLabel']).map(literal).filter(Boolean);
+    if (altLabels.length > 0) attrs.aliases = altLabels.join(';');
+
+    Object.entries(n).forEach(([key, value]) => {
+      if (key.startsWith('@') || ['label', 'rdfs:label', 'altLabel', 'skos:altLabel'].includes(key)) return;
+      asList(value).forEach(v => {
+        if (isJsonLdNode(v)) edges.push({ source: n['@id'], target: v['@id'], label: lastSegment(key), attrs: {} });
+        else if (literal(v) !== undefined) attrs[lastSegment(key)] = literal(v)!;
+      });
+    });
+  });
+
+  // Referenced nodes without a description of their own still need an entity
+  edges.forEach(e => {
+    if (!nameById.has(e.target)) {
+      nameById.set(e.target, lastSegment(e.target));
+      nodeRecords.push({ id: e.target, attrs: { name: lastSegment(e.target) } });
+    }
+  });
+  if (nodeRecords.length === 0) throw new Error('未找到 JSON-LD 节点');
+  return toRecords(nodeRecords, edges, document);
+};
+
+export const parseGraphFile = (text: string, fileName: string): ExtractionResult => {
+  if (/\.gexf$/i.test(fileName)) return parseGEXF(text, fileName);
+  if (/\.(graphml|xml)$/i.test(fileName)) return parseGraphML(text, fileName);
+  if (/\.(jsonld|json)$/i.test(fileName)) return parseJsonLd(text, fileName);
+  throw new Error('不支持的文件格式，请使用 .graphml / .gexf / .jsonld');
+};
@@ -0,0 +1,95 @@
+import { DendrogramNode, DistanceType, ClusterMethod } from '../types';
+import { SparseVector, vectorDistance } from './vectorDistance';
+
+export interface HierarchicalClustering {
+  tree: DendrogramNode;
+  cophenetic: number; // Pearson correlation of input distances with merge heights; NaN below 3 items
+}
+
+// Centroid, median and Ward update squared distances (exact for Euclidean input, the usual recurrence otherwise);
+// squared Euclidean input is taken as already squared and its merge heights stay on that scale
+const SQUARED: Record<ClusterMethod, boolean> = { single: false, complete: false, average: false, centroid: true, median: true, ward: true };
+
+// Lance–Williams: distance from the merge of i and j (sizes ni, nj) to k (size nk)
+const lanceWilliams = (method: ClusterMethod, dik: number, djk: number, dij: number, ni: number, nj: number, nk: number): number => {
+  switch (method) {
+    case 'single': return Math.min(dik, djk);
+    case 'complete': return Math.max(dik, djk);
+    case 'average': return (ni * dik + nj * djk) / (ni + nj);
+    case 'centroid': return (ni * dik + nj * djk) / (ni + nj) - ni * nj * dij / ((ni + nj) * (ni + nj));
+    case 'median': return (dik + djk) / 2 - dij / 4;
+    case 'ward': return ((ni + nk) * dik + (nj + nk) * djk - nk * dij) / (ni + nj + nk);
+  }
+};
+
+// Agglomerative clustering on a precomputed distance matrix. Each row caches its nearest active neighbour,
+// so a merge costs one O(n) update plus rescans of the rows that pointed at the merged pair: about O(n²) overall.
+export const clusterHierarchically = (ids: string[], vectors: SparseVector[], dims: number, type: DistanceType, method: ClusterMethod): HierarchicalClustering => {
+  const n = ids.length;
+  if (n === 0) return { tree: { name: "Root", children: [] }, cophenetic: NaN };
+
+  const original = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = vectorDistance(vectors[i], vectors[j], type, dims);
+      original[i * n + j] = original[j * n + i] = d;
+    }
+  }
+  const squared = SQUARED[method] && type !== 'sqeuclidean';
+  const D = squared ? original.map(d => d * d) : original.slice();
+
+  const active = new Uint8Array(n).fill(1);
+  const size = new Array(n).fill(1);
+  const members: number[][] = ids.map((_, i) => [i]);
+  const trees: DendrogramNode[] = ids.map(id => ({ name: id, isLeaf: true, distance: 0 }));
+  const nearest = new Int32Array(n).fill(-1);
+  const nearestDist = new Float64Array(n).fill(Infinity);
+
+  const rescan = (i: number) => {
+    nearest[i] = -1; nearestDist[i] = Infinity;
+    for (let k = 0; k < n; k++) {
+      if (k !== i && active[k] && D[i * n + k] < nearestDist[i]) { nearest[i] = k; nearestDist[i] = D[i * n + k]; }
+    }
+  };
+  for (let i = 0; i < n; i++) rescan(i);
+
+  // Running sums for the cophenetic correlation, filled as each merge fixes the height of its cross pairs
+  let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+
+  for (let step = 1; step < n; step++) {
+    let i = -1;
+    for (let k = 0; k < n; k++) if (active[k] && nearest[k] >= 0 && (i < 0 || nearestDist[k] < nearestDist[i])) i = k;
+    const j = nearest[i];
+    const dij = D[i * n + j];
+    const height = squared ? Math.sqrt(Math.max(0, dij)) : dij;
+
+    members[i].forEach(a => members[j].forEach(b => {
+      const x = original[a * n + b];
+      sx += x; sy += height; sxx += x * x; syy += height * height; sxy += x * height;
+    }));
+
+    // The merged cluster takes slot i
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === i || k === j) continue;
+      const d = lanceWilliams(method, D[i * n + k], D[j * n + k], dij, size[i], size[j], size[k]);
+      D[i * n + k] = D[k * n + i] = d;
+    }
+    active[j] = 0;
+    size[i] += size[j];
+    members[i] = members[i].concat(members[j]);
+    trees[i] = { name: "", distance: height, children: [trees[i], trees[j]] };
+
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === i) continue;
+      if (nearest[k] === i || nearest[k] === j) rescan(k);
+      else if (D[k * n + i] < nearestDist[k]) { nearest[k] = i; nearestDist[k] = D[k * n + i]; }
+    }
+    rescan(i);
+  }
+
+  const pairs = n * (n - 1) / 2;
+  const cov = sxy / pairs - (sx / pairs) * (sy / pairs);
+  const spread = Math.sqrt((sxx / pairs - (sx / pairs) ** 2) * (syy / pairs - (sy / pairs) ** 2));
+  const root = trees[active.indexOf(1)];
+  return { tree: root, cophenetic: n >= 3 && spread > 0 ? cov / spread : NaN };
+};
@@ -0,0 +1,45 @@
+// Linear edit history. Each entry holds the complete state after a labelled command;
+// snapshots share unchanged arrays and objects, so they stay cheap as long as edits are immutable.
+
+export interface HistoryEntry<T> {
+  label: string;
+  timestamp: number;
+  state: T;
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // Entry currently shown; entries after it can be redone
+}
+
+export const HISTORY_LIMIT = 100;
+const COALESCE_MS = 1000;
+
+export const INITIAL_STEP_LABEL = '初始状态';
+
+export const createHistory = <T,>(): History<T> => ({ entries: [], index: -1 });
+
+// Record `after` as a new step, discarding any redo branch. The first record also stores
+// `before` as the initial step. Repeats of the same label within a second (e.g. dragging
+// a color picker) are folded into one step.
+export const recordStep = <T,>(history: History<T>, label: string, before: T, after: T): History<T> => {
+  const now = Date.now();
+  let entries = history.entries.slice(0, history.index + 1);
+  if (entries.length === 0) entries = [{ label: INITIAL_STEP_LABEL, timestamp: now, state: before }];
+
+  const last = entries[entries.length - 1];
+  if (entries.length > 1 && last.label === label && now - last.timestamp < COALESCE_MS) {
+    entries[entries.length - 1] = { label, timestamp: now, state: after };
+  } else {
+    entries.push({ label, timestamp: now, state: after });
+  }
+
+  if (entries.length > HISTORY_LIMIT + 1) entries = entries.slice(entries.length - HISTORY_LIMIT - 1);
+  return { entries, index: entries.length - 1 };
+};
+
+export const canUndo = <T,>(history: History<T>) => history.index > 0;
+export const canRedo = <T,>(history: History<T>) => history.index < history.entries.length - 1;
+
+export const jumpTo = <T,>(history: History<T>, index: number): History<T> =>
+  ({ ...history, index: Math.max(0, Math.min(index, history.entries.length - 1)) });
@@ -0,0 +1,179 @@
+import { RawEntity, RawRelation, ExtractionResult } from '../types';
+import { createProvenance } from './provenance';
+
+// Label for relation endpoints that have no entity record, matching the graph view
+const UNDEFINED_LABEL = '未定义';
+
+// --- Cypher Export ---
+
+// Labels, relationship types and property keys are always backtick-quoted so Chinese names need no escaping rules
+const identifier = (name: string) => `\`${name.replace(/`/g, '``')}\``;
+const literal = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+
+const propertyMap = (props: Record<string, string | string[]>) => {
+  const entries = Object.entries(props).map(([key, value]) =>
+    `${identifier(key)}: ${Array.isArray(value) ? `[${value.map(literal).join(', ')}]` : literal(value)}`);
+  return `{${entries.join(', ')}}`;
+};
+
+const nodeProperties = (e: RawEntity): Record<string, string | string[]> => ({
+  ...e.properties,
+  ...(e.aliases && e.aliases.length > 0 ? { aliases: e.aliases } : {})
+});
+
+// Every relation endpoint gets a node, with the 未定义 label when it has no entity record
+const collectNodes = (entities: RawEntity[], relations: RawRelation[]): RawEntity[] => {
+  const byName = new Map<string, RawEntity>();
+  entities.forEach(e => { if (!byName.has(e.name)) byName.set(e.name, e); });
+  relations.forEach(r => [r.source, r.target].forEach(name => {
+    if (!byName.has(name)) byName.set(name, { type: UNDEFINED_LABEL, name });
+  }));
+  return Array.from(byName.values());
+};
+
+// Idempotent script: re-running it after edits adds what is new without duplicating nodes or relationships
+export const toCypherScript = (entities: RawEntity[], relations: RawRelation[]): string => {
+  const nodes = collectNodes(entities, relations);
+  const labelOf = new Map(nodes.map(n => [n.name, n.type]));
+  const labels = Array.from(new Set(nodes.map(n => n.type)));
+
+  const lines: string[] = ['// 中医知识图谱 Cypher 导出', `// ${nodes.length} 个节点, ${relations.length} 条关系`, ''];
+  labels.forEach(label => lines.push(`CREATE CONSTRAINT IF NOT EXISTS FOR (n:${identifier(label)}) REQUIRE n.name IS UNIQUE;`));
+  lines.push('');
+
+  nodes.forEach(n => {
+    const props = nodeProperties(n);
+    const set = Object.keys(props).length > 0 ? ` SET n += ${propertyMap(props)}` : '';
+    lines.push(`MERGE (n:${identifier(n.type)} {name: ${literal(n.name)}})${set};`);
+  });
+  lines.push('');
+
+  relations.forEach(r => {
+    const set = r.properties && Object.keys(r.properties).length > 0 ? ` SET r += ${propertyMap(r.properties)}` : '';
+    lines.push(
+      `MATCH (a:${identifier(labelOf.get(r.source)!)} {name: ${literal(r.source)}}), (b:${identifier(labelOf.get(r.target)!)} {name: ${literal(r.target)}}) ` +
+      `MERGE (a)-[r:${identifier(r.relation)}]->(b)${set};`
+    );
+  });
+  return lines.join('\n') + '\n';
+};
+
+// --- neo4j-admin import CSV ---
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+const csvLine = (fields: string[]) => fields.map(csvField).join(',');
+
+// Array properties use neo4j-admin's default array delimiter
+const ARRAY_DELIMITER = ';';
+
+// Node ids are the entity names, which are unique in the graph
+export const toNeo4jAdminCsv = (entities: RawEntity[], relations: RawRelation[]): { nodes: string, relationships: string } => {
+  const nodes = collectNodes(entities, relations);
+  const nodeKeys = Array.from(new Set(nodes.flatMap(n => Object.keys(n.properties || {}))));
+  const relKeys = Array.from(new Set(relations.flatMap(r => Object.keys(r.properties || {}))));
+
+  const nodeRows = [
+    csvLine(['name:ID', ':LABEL', 'aliases:string[]', ...nodeKeys]),
+    ...nodes.map(n => csvLine([n.name, n.type, (n.aliases || []).join(ARRAY_DELIMITER), ...nodeKeys.map(k => n.properties?.[k] || '')]))
+  ];
+  const relRows = [
+    csvLine([':START_ID', ':END_ID', ':TYPE', ...relKeys]),
+    ...relations.map(r => csvLine([r.source, r.target, r.relation, ...relKeys.map(k => r.properties?.[k] || '')]))
+  ];
+  return { nodes: nodeRows.join('\n') + '\n', relationships: relRows.join('\n') + '\n' };
+};
+
+// --- APOC JSON Import ---
+
+interface ApocNode {
+  type: 'node';
+  id: string;
+  labels?: string[];
+  properties?: Record<string, unknown>;
+}
+
+interface ApocRelationship {
+  type: 'relationship';
+  id: string;
+  label: string;
+  properties?: Record<string, unknown>;
+  start: { id: string, labels?: string[], properties?: Record<string, unknown> };
+  end: { id: string, labels?: string[], properties?: Record<string, unknown> };
+}
+
+type ApocRecord = ApocNode | ApocRelationship;
+
+// Name of a node: its `name` property, else the first string property, else the Neo4j id
+const nodeName = (id: string, props: Record<string, unknown> = {}) => {
+  if (typeof props.name === 'string' && props.name.trim()) return props.name.trim();
+  const first = Object.values(props).find(v => typeof v === 'string' && v.trim());
+  return first ? String(first).trim() : id;
+};
+
+const stringProperties = (props: Record<string, unknown> = {}, skip: string[] = []): Record<string, string> | undefined => {
+  const result: Record<string, string> = {};
+  Object.entries(props).forEach(([key, value]) => {
+    if (skip.includes(key) || value === null || value === undefined) return;
+    result[key] = Array.isArray(value) ? value.join(ARRAY_DELIMITER) : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+// apoc.export.json writes one record per line by default, or a single array with jsonFormat: 'ARRAY_JSON'
+const parseRecords = (text: string): ApocRecord[] => {
+  const trimmed = text.trim().replace(/^\uFEFF/, '');
+  if (trimmed.startsWith('[')) return JSON.parse(trimmed);
+  return trimmed.split(/\r?\n/).filter(l => l.trim()).map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`第 ${i + 1} 行不是有效的 JSON`);
+    }
+  });
+};
+
+export const parseApocJson = (text: string, document?: string): ExtractionResult => {
+  const records = parseRecords(text);
+  const provenance = () => createProvenance('neo4j', { document });
+  const names = new Map<string, string>(); // Neo4j id -> entity name
+  const entities: RawEntity[] = [];
+  const relations: RawRelation[] = [];
+
+  records.forEach(rec => {
+    if (rec.type !== 'node') return;
+    const name = nodeName(rec.id, rec.properties);
+    names.set(rec.id, name);
+    const aliases = rec.properties?.aliases;
+    entities.push({
+      type: rec.labels?.[0] || UNDEFINED_LABEL,
+      name,
+      provenance: provenance(),
+      aliases: Array.isArray(aliases) && aliases.length > 0 ? aliases.map(String) : undefined,
+      properties: stringProperties(rec.properties, ['name', 'aliases'])
+    });
+  });
+
+  // Subgraph exports may contain relationships whose endpoint nodes were not exported themselves
+  const endpoint = (ref: ApocRelationship['start']) => {
+    if (!names.has(ref.id)) {
+      const name = nodeName(ref.id, ref.properties);
+      names.set(ref.id, name);
+      entities.push({ type: ref.labels?.[0] || UNDEFINED_LABEL, name, provenance: provenance(), properties: stringProperties(ref.properties, ['name', 'aliases']) });
+    }
+    return names.get(ref.id)!;
+  };
+
+  records.forEach(rec => {
+    if (rec.type !== 'relationship') return;
+    relations.push({
+      source: endpoint(rec.start),
+      relation: rec.label,
+      target: endpoint(rec.end),
+      provenance: provenance(),
+      properties: stringProperties(rec.properties)
+    });
+  });
+
+  if (entities.length === 0 && relations.length === 0) throw new Error('未找到 APOC 导出的节点或关系记录');
+  return { entities, relations };
+};
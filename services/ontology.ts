@@ -0,0 +1,145 @@
+import { OntologySchema, RelationSchema, RawEntity, RawRelation, ValidationIssue, ValidationFix } from '../types';
+
+// Default TCM schema. Each fact has one canonical direction; the inverse name and the
+// aliases are accepted as input but reported so they can be normalized.
+export const DEFAULT_TCM_SCHEMA: OntologySchema = {
+  entityTypes: ["疾病", "症状", "证候", "中药", "方剂", "治法", "经络"],
+  relations: [
+    { name: "属于", domain: ["疾病", "证候"], range: ["疾病"] },
+    { name: "包含", domain: ["证候", "疾病"], range: ["症状"], inverse: "是症状", aliases: ["表现为"] },
+    { name: "组成", domain: ["方剂"], range: ["中药"], aliases: ["含有", "药物组成"] },
+    { name: "治疗", domain: ["方剂", "中药", "治法"], range: ["疾病", "证候", "症状"], inverse: "被治疗", aliases: ["适用", "主治"] },
+    { name: "配伍", domain: ["中药"], range: ["中药"], aliases: ["可以搭配", "相须"], symmetric: true },
+    { name: "归经", domain: ["中药"], range: ["经络"] },
+    { name: "治法为", domain: ["证候"], range: ["治法"] }
+  ]
+};
+
+// Resolve any accepted spelling of a relation to its schema entry
+export const lookupRelation = (schema: OntologySchema, name: string): { schema: RelationSchema, via: 'canonical' | 'alias' | 'inverse' } | null => {
+  for (const rel of schema.relations) {
+    if (rel.name === name) return { schema: rel, via: 'canonical' };
+  }
+  for (const rel of schema.relations) {
+    if (rel.aliases?.includes(name)) return { schema: rel, via: 'alias' };
+    if (rel.inverse === name) return { schema: rel, via: 'inverse' };
+  }
+  return null;
+};
+
+const fitsDomainRange = (rel: RelationSchema, sourceType?: string, targetType?: string) =>
+  (!sourceType || rel.domain.includes(sourceType)) && (!targetType || rel.range.includes(targetType));
+
+// Canonical form of a relation: alias renamed, inverse flipped, and flipped again if only the
+// reversed direction satisfies domain/range. Returns null for relations outside the schema.
+export const canonicalizeRelation = (
+  r: RawRelation,
+  schema: OntologySchema,
+  typeOf: (name: string) => string | undefined
+): RawRelation | null => {
+  const found = lookupRelation(schema, r.relation);
+  if (!found) return null;
+  let next: RawRelation = found.via === 'inverse'
+    ? { ...r, source: r.target, target: r.source, relation: found.schema.name }
+    : { ...r, relation: found.schema.name };
+
+  const s = typeOf(next.source), t = typeOf(next.target);
+  if (!fitsDomainRange(found.schema, s, t) && fitsDomainRange(found.schema, t, s)) {
+    next = { ...next, source: next.target, target: next.source };
+  }
+  return next;
+};
+
+const tripleKey = (r: RawRelation) => `${r.source}|${r.relation}|${r.target}`;
+
+// Symmetric relations are the same fact in either direction
+const factKey = (r: RawRelation, symmetric?: boolean) =>
+  symmetric && r.source > r.target ? `${r.target}|${r.relation}|${r.source}` : tripleKey(r);
+
+export const validateGraph = (entities: RawEntity[], relations: RawRelation[], schema: OntologySchema): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const typeByName = new Map<string, string>();
+  entities.forEach(e => typeByName.set(e.name, e.type));
+  const typeOf = (name: string) => typeByName.get(name);
+  const allowedTypes = new Set(schema.entityTypes);
+
+  entities.forEach(e => {
+    if (!allowedTypes.has(e.type)) {
+      issues.push({ kind: 'unknownEntityType', entityName: e.name, message: `实体「${e.name}」的类型「${e.type}」不在模式中` });
+    }
+  });
+
+  const seen = new Map<string, number>(); // canonical triple -> first relation index
+  relations.forEach((r, idx) => {
+    const label = `${r.source} —${r.relation}→ ${r.target}`;
+
+    const missing = [r.source, r.target].filter(n => !typeByName.has(n));
+    if (missing.length > 0) {
+      issues.push({ kind: 'danglingEndpoint', relationIndex: idx, message: `${label}: 实体「${missing.join('」「')}」不存在` });
+    }
+
+    const found = lookupRelation(schema, r.relation);
+    if (!found) {
+      issues.push({ kind: 'unknownRelation', relationIndex: idx, message: `${label}: 关系「${r.relation}」不在模式中` });
+      const key = tripleKey(r);
+      if (seen.has(key)) issues.push({ kind: 'duplicate', relationIndex: idx, message: `${label}: 与第 ${seen.get(key)! + 1} 条关系重复`, fix: { action: 'remove', label: '删除重复' } });
+      else seen.set(key, idx);
+      return;
+    }
+
+    const canonical = canonicalizeRelation(r, schema, typeOf)!;
+    const key = factKey(canonical, found.schema.symmetric);
+    if (seen.has(key)) {
+      issues.push({ kind: 'duplicate', relationIndex: idx, message: `${label}: 与第 ${seen.get(key)! + 1} 条关系语义重复`, fix: { action: 'remove', label: '删除重复' } });
+      return;
+    }
+    seen.set(key, idx);
+
+    const replace: ValidationFix = { action: 'replace', relation: canonical, label: `改为 ${canonical.source} —${canonical.relation}→ ${canonical.target}` };
+    const flipped = canonical.source !== (found.via === 'inverse' ? r.target : r.source);
+
+    if (found.via === 'inverse') {
+      issues.push({ kind: 'inverseRelation', relationIndex: idx, message: `${label}: 「${r.relation}」是「${found.schema.name}」的逆关系`, fix: replace });
+    } else if (found.via === 'alias') {
+      issues.push({ kind: 'nonCanonicalRelation', relationIndex: idx, message: `${label}: 「${r.relation}」应规范为「${found.schema.name}」`, fix: replace });
+    } else if (flipped && !found.schema.symmetric) {
+      issues.push({ kind: 'domainRange', relationIndex: idx, message: `${label}: 方向与模式 (${found.schema.domain.join('/')} → ${found.schema.range.join('/')}) 相反`, fix: replace });
+    }
+
+    const s = typeOf(canonical.source), t = typeOf(canonical.target);
+    if (!fitsDomainRange(found.schema, s, t)) {
+      issues.push({ kind: 'domainRange', relationIndex: idx, message: `${label}: 「${found.schema.name}」要求 ${found.schema.domain.join('/')} → ${found.schema.range.join('/')}，实际为 ${s || '?'} → ${t || '?'}` });
+    }
+  });
+
+  return issues;
+};
+
+// Apply the fixes of the given issues. Removal wins over replacement for the same relation;
+// a replacement that recreates an existing triple is dropped as a duplicate.
+export const applyValidationFixes = (issues: ValidationIssue[], relations: RawRelation[]): RawRelation[] => {
+  const removals = new Set<number>();
+  const replacements = new Map<number, RawRelation>();
+  issues.forEach(issue => {
+    if (issue.relationIndex === undefined || !issue.fix) return;
+    if (issue.fix.action === 'remove') removals.add(issue.relationIndex);
+    else replacements.set(issue.relationIndex, issue.fix.relation);
+  });
+
+  const keys = new Set<string>();
+  relations.forEach((r, idx) => {
+    if (!removals.has(idx) && !replacements.has(idx)) keys.add(tripleKey(r));
+  });
+
+  const result: RawRelation[] = [];
+  relations.forEach((r, idx) => {
+    if (removals.has(idx)) return;
+    const next = replacements.get(idx);
+    if (!next) { result.push(r); return; }
+    const key = tripleKey(next);
+    if (keys.has(key)) return;
+    keys.add(key);
+    result.push(next);
+  });
+  return result;
+};
@@ -0,0 +1,53 @@
+import { ExtractionProvider, ExtractionResult } from "../types";
+import { SYSTEM_INSTRUCTION, JSON_FORMAT_INSTRUCTION, buildUserPrompt, parseExtractionJson } from "./extractionPrompt";
+
+// Works with any server exposing the OpenAI chat completions API
+// (Ollama, vLLM, llama.cpp server, LM Studio, ...), typically on the local network.
+export const OPENAI_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+export const OPENAI_DEFAULT_MODEL = "qwen2.5:7b";
+
+export const extractWithOpenAICompatible = async (
+  text: string,
+  options: { baseUrl?: string, model?: string, apiKey?: string, signal?: AbortSignal } = {}
+): Promise<ExtractionResult> => {
+  const baseUrl = (options.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model || OPENAI_DEFAULT_MODEL,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_INSTRUCTION + JSON_FORMAT_INSTRUCTION },
+          { role: 'user', content: buildUserPrompt(text) }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`模型服务返回错误 ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    const json = await response.json();
+    return parseExtractionJson(json?.choices?.[0]?.message?.content);
+
+  } catch (error) {
+    console.error("OpenAI-compatible Extraction Error:", error);
+    throw error;
+  }
+};
+
+export const openaiCompatibleProvider: ExtractionProvider = {
+  id: 'openai',
+  name: 'OpenAI 兼容 (本地服务)',
+  defaultModel: OPENAI_DEFAULT_MODEL,
+  requiresNetwork: false,
+  extract: (text, settings, context) => extractWithOpenAICompatible(text, { baseUrl: settings.baseUrl, model: settings.model, apiKey: settings.apiKey, signal: context.signal })
+};
@@ -0,0 +1,113 @@
+import { ProjectState, ProjectFile, WorkspaceMeta } from '../types';
+
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.tcmkg.json';
+
+const DB_NAME = 'tcmkg';
+const DB_VERSION = 1;
+const STORE = 'workspaces';
+
+interface WorkspaceRecord extends WorkspaceMeta {
+  project: ProjectState;
+}
+
+// Fields added after a project was saved fall back to `defaults`, including new keys inside the config objects
+const withDefaults = (project: any, defaults: ProjectState): ProjectState => ({
+  ...defaults,
+  ...project,
+  graphConfig: { ...defaults.graphConfig, ...project.graphConfig },
+  algoConfig: Object.fromEntries(Object.entries(defaults.algoConfig).map(([key, value]) => [key, { ...value, ...project.algoConfig?.[key] }])) as ProjectState['algoConfig']
+});
+
+// --- IndexedDB ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { dbPromise = null; reject(req.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceMeta[]> => {
+  const records = await withStore<WorkspaceRecord[]>('readonly', s => s.getAll());
+  return records
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadWorkspace = async (id: string, defaults: ProjectState): Promise<ProjectState | null> => {
+  const record = await withStore<WorkspaceRecord | undefined>('readonly', s => s.get(id));
+  return record ? withDefaults(record.project, defaults) : null;
+};
+
+export const saveWorkspace = async (meta: Omit<WorkspaceMeta, 'updatedAt'>, project: ProjectState): Promise<WorkspaceMeta> => {
+  const record: WorkspaceRecord = { ...meta, updatedAt: Date.now(), project };
+  await withStore('readwrite', s => s.put(record));
+  return { id: record.id, name: record.name, updatedAt: record.updatedAt };
+};
+
+export const deleteWorkspace = (id: string): Promise<undefined> => withStore('readwrite', s => s.delete(id));
+
+export const newWorkspaceId = () => `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- Project File ---
+
+// Each entry upgrades a file from version `key` to `key + 1`
+const MIGRATIONS: Record<number, (project: any) => any> = {
+  // Version 0: bare { entities, relations, styles } dumps written before project files existed
+  0: ({ styles, ...p }) => ({ ...p, groupStyles: p.groupStyles || styles || {} })
+};
+
+export const toProjectFile = (name: string, project: ProjectState): ProjectFile => ({
+  format: 'tcmkg',
+  version: PROJECT_FILE_VERSION,
+  name,
+  savedAt: Date.now(),
+  project
+});
+
+// Parse and migrate a project file; fields missing from older versions fall back to `defaults`
+export const parseProjectFile = (text: string, defaults: ProjectState): { name: string, project: ProjectState } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error("项目文件不是有效的 JSON");
+  }
+  if (!raw || typeof raw !== 'object') throw new Error("项目文件格式不正确");
+
+  const isLegacy = raw.format !== 'tcmkg';
+  let version: number = isLegacy ? 0 : Number(raw.version);
+  let project: any = isLegacy ? raw : raw.project;
+  if (!Number.isInteger(version) || version < 0) throw new Error("项目文件缺少有效的版本号");
+  if (version > PROJECT_FILE_VERSION) throw new Error(`项目文件版本 ${version} 高于当前支持的版本 ${PROJECT_FILE_VERSION}，请升级应用`);
+  if (!project || !Array.isArray(project.entities) || !Array.isArray(project.relations)) throw new Error("项目文件缺少实体或关系数据");
+
+  while (version < PROJECT_FILE_VERSION) {
+    project = MIGRATIONS[version](project);
+    version++;
+  }
+
+  return {
+    name: (!isLegacy && typeof raw.name === 'string' && raw.name) || '导入的项目',
+    project: withDefaults(project, defaults)
+  };
+};
@@ -0,0 +1,66 @@
+import { ExtractionMethod, Provenance, ExtractionResult, TextChunk } from "../types";
+
+export const METHOD_LABEL: Record<ExtractionMethod, string> = {
+  manual: '手动录入',
+  csv: 'CSV 导入',
+  llm: '大模型抽取',
+  rule: '规则抽取',
+  neo4j: 'Neo4j 导入',
+  file: '图文件导入'
+};
+
+export const createProvenance = (method: ExtractionMethod, extra: Partial<Omit<Provenance, 'method'>> = {}): Provenance => ({
+  method,
+  timestamp: new Date().toISOString(),
+  ...extra
+});
+
+// Provenance of two facts collapsed into one: the first keeps its source position, evidence of the second is appended
+export const mergeProvenance = (a: Provenance | undefined, b: Provenance | undefined): Provenance | undefined => {
+  if (!a || !b) return a || b;
+  const evidence = Array.from(new Set([a.evidence, b.evidence].filter((e): e is string => !!e)));
+  return evidence.length > 0 ? { ...a, evidence: evidence.join('\n') } : a;
+};
+
+const SENTENCE_END = /[。！？；!?;\n]/;
+
+// Offsets of the first sentence of `text` containing every term
+export const findEvidenceSentence = (text: string, terms: string[]): { start: number, end: number, sentence: string } | null => {
+  let start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    if (i === text.length || SENTENCE_END.test(text[i])) {
+      const end = i < text.length ? i + 1 : i;
+      const sentence = text.slice(start, end);
+      const trimmed = sentence.trim();
+      if (trimmed && terms.every(t => sentence.includes(t))) {
+        // Offsets cover the trimmed sentence, so slicing the text with them gives back the evidence
+        const leading = sentence.length - sentence.trimStart().length;
+        return { start: start + leading, end: start + leading + trimmed.length, sentence: trimmed };
+      }
+      start = end;
+    }
+  }
+  return null;
+};
+
+// Resolve evidence of a chunk-level result against the full document:
+// quoted evidence is located in the chunk, otherwise the sentence mentioning the names is used.
+const resolve = (provenance: Provenance | undefined, terms: string[], chunk: TextChunk, document: string | undefined, method: ExtractionMethod): Provenance => {
+  const base = createProvenance(provenance?.method || method, { document });
+  const quoted = provenance?.evidence?.trim();
+  if (quoted) {
+    const idx = chunk.text.indexOf(quoted);
+    return idx === -1
+      ? { ...base, evidence: quoted }
+      : { ...base, evidence: quoted, startOffset: chunk.start + idx, endOffset: chunk.start + idx + quoted.length };
+  }
+  const found = findEvidenceSentence(chunk.text, terms);
+  return found
+    ? { ...base, evidence: found.sentence, startOffset: chunk.start + found.start, endOffset: chunk.start + found.end }
+    : base;
+};
+
+export const attachChunkProvenance = (result: ExtractionResult, chunk: TextChunk, document: string | undefined, method: ExtractionMethod): ExtractionResult => ({
+  entities: result.entities.map(e => ({ ...e, provenance: resolve(e.provenance, [e.name], chunk, document, method) })),
+  relations: result.relations.map(r => ({ ...r, provenance: resolve(r.provenance, [r.source, r.target], chunk, document, method) }))
+});
@@ -0,0 +1,16 @@
+// Seeded pseudo-random numbers for the stochastic analyses, so a logged seed reproduces a run exactly
+export const DEFAULT_SEED = 42;
+
+// mulberry32: a 32-bit generator returning floats in [0, 1)
+export const createRng = (seed: number) => {
+  let state = seed | 0;
+  return () => {
+    state = state + 0x6D2B79F5 | 0;
+    let t = Math.imul(state ^ state >>> 15, 1 | state);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for the "new seed" buttons
+export const randomSeed = () => Math.floor(Math.random() * 2147483647);
@@ -0,0 +1,87 @@
+import { ExtractionProvider, ExtractionResult, RawEntity, RawRelation } from "../types";
+
+// Offline, deterministic extractor: dictionary matching + sentence-level type-pair rules.
+// The dictionary is the built-in lexicon below merged with the entities already in the graph,
+// so the more a graph is curated, the more this provider recognizes.
+
+const BUILTIN_LEXICON: Record<string, string[]> = {
+  "中药": ["黄芪", "当归", "川芎", "地龙", "丹参", "三七", "赤芍", "桃仁", "红花", "人参", "党参", "白术", "茯苓", "甘草", "炙甘草", "桂枝", "麻黄", "杏仁", "芍药", "白芍", "生姜", "大枣", "柴胡", "黄芩", "半夏", "附子", "干姜", "熟地黄", "生地黄", "麦冬", "五味子", "瓜蒌", "薤白", "枳实", "厚朴", "大黄", "石膏", "知母"],
+  "方剂": ["补阳还五汤", "血府逐瘀汤", "桂枝汤", "麻黄汤", "小柴胡汤", "四君子汤", "四物汤", "生脉散", "瓜蒌薤白半夏汤", "白虎汤", "承气汤", "大承气汤", "理中丸", "六味地黄丸"],
+  "症状": ["胸闷", "胸痛", "心悸", "气短", "乏力", "头痛", "发热", "恶寒", "汗出", "咳嗽", "喘", "失眠", "口渴", "便秘", "腹痛", "眩晕", "自汗", "盗汗"],
+  "证候": ["气虚血瘀证", "气滞血瘀证", "心血瘀阻证", "痰浊闭阻证", "气阴两虚证", "阳虚证", "阴虚证", "太阳中风证"],
+  "疾病": ["胸痹", "冠心病", "冠状动脉粥样硬化性心脏病", "中风", "伤寒", "消渴", "眩晕病", "心悸病"]
+};
+
+// (source type, target type) pairs that co-occur in one sentence imply a relation
+const TYPE_PAIR_RULES: Array<{ sourceType: string, targetType: string, relation: string }> = [
+  { sourceType: "方剂", targetType: "中药", relation: "组成" },
+  { sourceType: "方剂", targetType: "证候", relation: "治疗" },
+  { sourceType: "方剂", targetType: "疾病", relation: "治疗" },
+  { sourceType: "中药", targetType: "证候", relation: "治疗" },
+  { sourceType: "中药", targetType: "疾病", relation: "治疗" },
+  { sourceType: "症状", targetType: "证候", relation: "是症状" },
+  { sourceType: "症状", targetType: "疾病", relation: "是症状" }
+];
+
+const SENTENCE_SPLIT = /[。！？；;!?\n]+/;
+
+const buildDictionary = (entities: RawEntity[]) => {
+  const dict = new Map<string, string>();
+  Object.entries(BUILTIN_LEXICON).forEach(([type, names]) => names.forEach(n => dict.set(n, type)));
+  // Graph entities take precedence over the built-in lexicon
+  entities.forEach(e => { if (e.name) dict.set(e.name, e.type); });
+  return dict;
+};
+
+// Greedy longest-match scan, so "补阳还五汤" wins over a shorter overlapping term
+const matchTerms = (sentence: string, dict: Map<string, string>, maxLen: number): string[] => {
+  const found: string[] = [];
+  let i = 0;
+  while (i < sentence.length) {
+    let matched = "";
+    for (let len = Math.min(maxLen, sentence.length - i); len > 0; len--) {
+      const candidate = sentence.substr(i, len);
+      if (dict.has(candidate)) { matched = candidate; break; }
+    }
+    if (matched) {
+      found.push(matched);
+      i += matched.length;
+    } else {
+      i++;
+    }
+  }
+  return found;
+};
+
+export const extractWithRules = (text: string, entities: RawEntity[]): ExtractionResult => {
+  const dict = buildDictionary(entities);
+  const maxLen = Math.max(0, ...Array.from(dict.keys()).map(k => k.length));
+
+  const foundEntities = new Map<string, RawEntity>();
+  const foundRelations = new Map<string, RawRelation>();
+
+  text.split(SENTENCE_SPLIT).forEach(sentence => {
+    const terms = Array.from(new Set(matchTerms(sentence, dict, maxLen)));
+    terms.forEach(name => foundEntities.set(name, { type: dict.get(name)!, name }));
+
+    terms.forEach(a => {
+      terms.forEach(b => {
+        if (a === b) return;
+        const rule = TYPE_PAIR_RULES.find(r => r.sourceType === dict.get(a) && r.targetType === dict.get(b));
+        if (!rule) return;
+        const key = `${a}|${rule.relation}|${b}`;
+        if (!foundRelations.has(key)) foundRelations.set(key, { source: a, relation: rule.relation, target: b });
+      });
+    });
+  });
+
+  return { entities: Array.from(foundEntities.values()), relations: Array.from(foundRelations.values()) };
+};
+
+export const ruleBasedProvider: ExtractionProvider = {
+  id: 'rule',
+  name: '规则/词典 (离线)',
+  defaultModel: 'dictionary',
+  requiresNetwork: false,
+  extract: async (text, _settings, context) => extractWithRules(text, context.entities)
+};
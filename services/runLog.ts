@@ -0,0 +1,61 @@
+import { AlgorithmType, AnalysisAlgoConfig, AnalysisRunRecord, RawEntity, RawRelation, AliasDictionary } from '../types';
+
+// Oldest runs are dropped beyond this, keeping saved projects small
+export const RUN_LOG_LIMIT = 200;
+
+// Config sections each algorithm reads; node metrics on every network view depend on the centrality options
+const ALGORITHM_SECTIONS: Record<AlgorithmType, (keyof AnalysisAlgoConfig)[]> = {
+  [AlgorithmType.HIERARCHICAL]: ['hierarchical', 'centrality'],
+  [AlgorithmType.KMEANS]: ['kmeans', 'centrality'],
+  [AlgorithmType.COMMUNITY]: ['community', 'centrality'],
+  [AlgorithmType.ASSOCIATION]: ['association', 'centrality'],
+  [AlgorithmType.COMPLEX_NETWORK]: ['complexNetwork', 'backbone', 'centrality'],
+  [AlgorithmType.CENTRALITY]: ['complexNetwork', 'backbone', 'centrality']
+};
+
+// cyrb53: 53-bit string hash, plenty to tell the datasets of one project apart
+const cyrb53 = (text: string) => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+};
+
+// Covers what the algorithms read, in order (node order feeds the seeded shuffles); provenance and properties are left out
+export const hashDataset = (entities: RawEntity[], relations: RawRelation[], aliases: AliasDictionary) =>
+  cyrb53(JSON.stringify([
+    entities.map(e => [e.type, e.name]),
+    relations.map(r => [r.source, r.relation, r.target]),
+    Object.entries(aliases).sort(([a], [b]) => a.localeCompare(b))
+  ])).toString(16).padStart(14, '0');
+
+export const runSeed = (algorithm: AlgorithmType, config: AnalysisAlgoConfig) =>
+  algorithm === AlgorithmType.KMEANS ? config.kmeans.seed : algorithm === AlgorithmType.COMMUNITY ? config.community.seed : undefined;
+
+export const createRunRecord = (
+  algorithm: AlgorithmType,
+  config: AnalysisAlgoConfig,
+  data: { entities: RawEntity[], relations: RawRelation[], aliases: AliasDictionary },
+  summary: string
+): AnalysisRunRecord => ({
+  id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  algorithm,
+  parameters: Object.fromEntries(ALGORITHM_SECTIONS[algorithm].map(key => [key, config[key]])),
+  seed: runSeed(algorithm, config),
+  datasetHash: hashDataset(data.entities, data.relations, data.aliases),
+  timestamp: Date.now(),
+  summary
+});
+
+export const appendRunRecord = (log: AnalysisRunRecord[], record: AnalysisRunRecord) => [...log, record].slice(-RUN_LOG_LIMIT);
+
+// The logged sections replace the current ones; sections the algorithm does not read stay as they are
+export const restoreRunParameters = (config: AnalysisAlgoConfig, record: AnalysisRunRecord): AnalysisAlgoConfig => ({
+  ...config,
+  ...Object.fromEntries(Object.entries(record.parameters).map(([key, section]) => [key, { ...config[key as keyof AnalysisAlgoConfig], ...section }]))
+});
@@ -0,0 +1,326 @@
+import * as XLSX from 'xlsx';
+import { RawEntity, RawRelation, OntologySchema, AliasDictionary, ImportTarget, ColumnRole, TabularSheet, TabularSource, ImportIssue, ImportPlan } from '../types';
+import { createProvenance } from './provenance';
+import { lookupRelation } from './ontology';
+import { resolveAlias, applyAliasesToEntities, applyAliasesToRelations } from './aliasDictionary';
+
+// --- Decoding ---
+
+// BOMs win; otherwise strict UTF-8, falling back to GBK (Excel's default CSV encoding on Chinese Windows)
+export const decodeText = (buffer: ArrayBuffer): { text: string, encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 (BOM)' };
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'UTF-16LE' };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'UTF-16BE' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('gbk').decode(bytes), encoding: 'GBK' };
+  }
+};
+
+// --- Delimited Text ---
+
+const DELIMITERS = ['\t', ',', ';', '，'];
+
+// Pick the delimiter that splits the first lines into the most consistent column count
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+  let best = ',', bestScore = 0;
+  DELIMITERS.forEach(d => {
+    const counts = lines.map(l => l.split(d).length - 1);
+    if (counts.length === 0 || counts[0] === 0) return;
+    const consistent = counts.filter(c => c === counts[0]).length;
+    const score = consistent * 100 + counts[0];
+    if (score > bestScore) { best = d; bestScore = score; }
+  });
+  return best;
+};
+
+// RFC 4180 style: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+// Drops blank rows; the rest keep their source row number so issues point at the row the user sees
+const toSheet = (name: string, records: string[][], firstRow = 1): TabularSheet => {
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  records.forEach((r, i) => {
+    if (r.some(c => c.trim() !== '')) { rows.push(r); rowNumbers.push(firstRow + i); }
+  });
+  return { name, rows, rowNumbers };
+};
+
+// --- Files ---
+
+export const readTabularText = (text: string, fileName = '粘贴的文本'): TabularSource => ({
+  fileName,
+  encoding: 'UTF-8',
+  sheets: [toSheet(fileName, parseDelimited(text.replace(/^\uFEFF/, '')))]
+});
+
+export const readTabularFile = async (file: File): Promise<TabularSource> => {
+  const buffer = await file.arrayBuffer();
+  if (/\.xlsx?$/i.test(file.name)) {
+    const workbook = XLSX.read(buffer, { type: 'array' });
+    return {
+      fileName: file.name,
+      encoding: 'xlsx',
+      sheets: workbook.SheetNames.map(name => {
+        const sheet = workbook.Sheets[name];
+        // The used range may start below row 1; blank rows inside it are kept so the offsets stay exact
+        const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+        const records = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+        return toSheet(name, records.map(r => r.map(c => String(c ?? ''))), firstRow);
+      })
+    };
+  }
+  const { text, encoding } = decodeText(buffer);
+  const delimiter = /\.tsv$/i.test(file.name) ? '\t' : detectDelimiter(text);
+  return { fileName: file.name, encoding, sheets: [toSheet(file.name, parseDelimited(text, delimiter))] };
+};
+
+// --- Column Mapping ---
+
+const HEADER_HINTS: [ColumnRole, RegExp][] = [
+  ['sourceType', /^(源类型|源实体类型|头实体类型|head_?type|source_?type)$/i],
+  ['targetType', /^(目标类型|目标实体类型|尾实体类型|tail_?type|target_?type)$/i],
+  ['source', /^(源|源实体|头实体|起点|source|head|from|:START_ID(\(.*\))?)$/i],
+  ['target', /^(目标|目标实体|尾实体|终点|target|tail|to|:END_ID(\(.*\))?)$/i],
+  ['relation', /^(关系|关系类型|谓词|relation|predicate|rel|:TYPE)$/i],
+  ['type', /^(类型|实体类型|类别|type|label|category|:LABEL)$/i],
+  ['name', /^(名称|实体|实体名|名字|name|entity|name:ID(\(.*\))?)$/i]
+];
+
+export const ROLE_LABEL: Record<ColumnRole, string> = {
+  type: '类型',
+  name: '名称',
+  source: '源',
+  sourceType: '源类型',
+  relation: '关系',
+  target: '目标',
+  targetType: '目标类型',
+  property: '属性',
+  ignore: '忽略'
+};
+
+export const REQUIRED_ROLES: Record<ImportTarget, ColumnRole[]> = {
+  entity: ['type', 'name'],
+  relation: ['source', 'relation', 'target'],
+  triple: ['source', 'relation', 'target']
+};
+
+// Field roles a column may take per target, in the legacy column order used for header-less tables
+export const TARGET_ROLES: Record<ImportTarget, ColumnRole[]> = {
+  entity: ['type', 'name'],
+  relation: ['source', 'relation', 'target'],
+  triple: ['source', 'sourceType', 'relation', 'target', 'targetType']
+};
+
+// Guess the target and a role per column from the header; unknown headers become properties.
+// Without recognizable headers the legacy column order (类型,名称 / 源,关系,目标 / 头,头类型,关系,尾,尾类型) is assumed.
+export const guessColumnMapping = (header: string[], target?: ImportTarget): { target: ImportTarget, mapping: ColumnRole[] } => {
+  const hinted = header.map(h => HEADER_HINTS.find(([, re]) => re.test(h.trim()))?.[0]);
+  const recognized = hinted.some(Boolean);
+  const resolvedTarget: ImportTarget = target
+    || (hinted.includes('sourceType') || hinted.includes('targetType') || (!recognized && header.length >= 5) ? 'triple'
+      : hinted.includes('source') || hinted.includes('target') || (!recognized && header.length >= 3) ? 'relation' : 'entity');
+  const allowed = TARGET_ROLES[resolvedTarget];
+
+  if (!hinted.some(r => r && allowed.includes(r))) {
+    return { target: resolvedTarget, mapping: header.map((_, i) => allowed[i] || 'property') };
+  }
+  const used = new Set<ColumnRole>();
+  const mapping = hinted.map(r => {
+    if (r && allowed.includes(r) && !used.has(r)) { used.add(r); return r; }
+    return 'property' as ColumnRole;
+  });
+  return { target: resolvedTarget, mapping };
+};
+
+// Type an endpoint must have for the relation to satisfy the schema, when the schema pins it to one
+export const suggestEndpointType = (schema: OntologySchema, relation: string, end: 'source' | 'target'): string | undefined => {
+  const found = lookupRelation(schema, relation);
+  if (!found) return undefined;
+  const swapped = found.via === 'inverse' && !found.schema.symmetric;
+  const types = (end === 'source') !== swapped ? found.schema.domain : found.schema.range;
+  return types.length === 1 ? types[0] : undefined;
+};
+
+// --- Import Plan ---
+
+interface PlanContext {
+  entities: RawEntity[];
+  relations: RawRelation[];
+  schema: OntologySchema;
+  aliases: AliasDictionary;
+  document: string;
+  endpointTypes?: Record<string, string>; // Dangling endpoint -> type chosen in the report; these are created as entities
+}
+
+// Validate every data row against the mapping and the current graph. Rows with errors are left out
+// of the plan; the issues list is the per-row report shown before anything is committed.
+export const buildImportPlan = (
+  { rows, rowNumbers }: TabularSheet,
+  mapping: ColumnRole[],
+  target: ImportTarget,
+  hasHeader: boolean,
+  ctx: PlanContext
+): ImportPlan => {
+  const header = hasHeader ? rows[0] || [] : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const dataRowNumbers = hasHeader ? rowNumbers.slice(1) : rowNumbers;
+  const col = (role: ColumnRole) => mapping.indexOf(role);
+  const propertyCols = mapping.map((r, i) => r === 'property' ? i : -1).filter(i => i >= 0);
+
+  const issues: ImportIssue[] = [];
+  const entities: RawEntity[] = [];
+  const relations: RawRelation[] = [];
+  const retyped = new Map<string, string>();
+  const canonical = (name: string) => resolveAlias(name, ctx.aliases);
+  const endpointTypes = new Map(Object.entries(ctx.endpointTypes || {}).map(([name, type]) => [canonical(name), type]));
+
+  const knownTypes = new Set([...ctx.schema.entityTypes, ...ctx.entities.map(e => e.type)]);
+  const existingNames = new Map(ctx.entities.map(e => [canonical(e.name), e.type]));
+  const graphNames = new Set(existingNames.keys()); // Entities already in the graph, as opposed to created by this import
+  const existingTriples = new Set(ctx.relations.map(r => `${canonical(r.source)}|${r.relation}|${canonical(r.target)}`));
+
+  // First type given for each endpoint anywhere in a triple table, so rows without a type cell still resolve
+  const tableTypes = new Map<string, string>();
+  if (target === 'triple') {
+    dataRows.forEach(cells => ([['source', 'sourceType'], ['target', 'targetType']] as [ColumnRole, ColumnRole][]).forEach(([nameRole, typeRole]) => {
+      const name = col(nameRole) >= 0 ? (cells[col(nameRole)] || '').trim() : '';
+      const type = col(typeRole) >= 0 ? (cells[col(typeRole)] || '').trim() : '';
+      if (name && type && !tableTypes.has(canonical(name))) tableTypes.set(canonical(name), type);
+    }));
+  }
+
+  const properties = (cells: string[]) => {
+    const props: Record<string, string> = {};
+    propertyCols.forEach(i => {
+      const value = (cells[i] || '').trim();
+      if (value) props[(header[i] || `列${i + 1}`).trim()] = value;
+    });
+    return Object.keys(props).length > 0 ? props : undefined;
+  };
+
+  dataRows.forEach((cells, i) => {
+    const row = dataRowNumbers[i];
+    const cell = (role: ColumnRole) => col(role) >= 0 ? (cells[col(role)] || '').trim() : '';
+    const provenance = createProvenance('csv', { document: ctx.document, row, evidence: cells.join(', ') });
+    const report = (kind: ImportIssue['kind'], severity: ImportIssue['severity'], message: string, extra: Partial<ImportIssue> = {}) =>
+      issues.push({ row, kind, severity, message, ...extra });
+
+    if (target === 'entity') {
+      const type = cell('type'), name = cell('name');
+      if (!type || !name) { report('missingField', 'error', `缺少${!name ? '名称' : '类型'}`); return; }
+      const key = canonical(name);
+      const existingType = existingNames.get(key);
+      if (existingType !== undefined) {
+        report('duplicate', 'error', existingType === type ? `实体「${name}」已存在` : `实体「${name}」已存在，类型为「${existingType}」`);
+        return;
+      }
+      if (!knownTypes.has(type)) report('unknownType', 'warning', `类型「${type}」不在本体模式中`);
+      existingNames.set(key, type);
+      entities.push({ type, name, provenance, properties: properties(cells) });
+      return;
+    }
+
+    const source = cell('source'), relation = cell('relation'), targetName = cell('target');
+    if (!source || !relation || !targetName) {
+      const missing = [!source && '源', !relation && '关系', !targetName && '目标'].filter(Boolean).join('、');
+      report('missingField', 'error', `缺少${missing}`);
+      return;
+    }
+    const key = `${canonical(source)}|${relation}|${canonical(targetName)}`;
+    if (existingTriples.has(key)) { report('duplicate', 'error', `关系「${source} —${relation}→ ${targetName}」已存在`); return; }
+
+    const endpoints: [string, 'source' | 'target', string][] = [
+      [source, 'source', cell('sourceType')],
+      [targetName, 'target', cell('targetType')]
+    ];
+    endpoints.forEach(([name, end, typeCell]) => {
+      const nameKey = canonical(name);
+      const existingType = existingNames.get(nameKey);
+      const suggestedType = suggestEndpointType(ctx.schema, relation, end);
+
+      if (existingType === undefined) {
+        // Triple tables carry their own endpoint types; otherwise the type picked in the report is used
+        const type = (target === 'triple' ? typeCell || tableTypes.get(nameKey) || suggestedType : undefined) || endpointTypes.get(nameKey);
+        if (!type) {
+          report('missingEndpoint', 'warning', target === 'triple'
+            ? `端点「${name}」缺少类型，将以"未定义"类型显示`
+            : `端点「${name}」不是已知实体，将以"未定义"类型显示`, { entityName: name, suggestedType });
+          return;
+        }
+        if (!knownTypes.has(type)) report('unknownType', 'warning', `类型「${type}」不在本体模式中`);
+        existingNames.set(nameKey, type);
+        entities.push({ type, name, provenance });
+      } else if (target === 'triple' && typeCell && typeCell !== existingType) {
+        if (!graphNames.has(nameKey) || retyped.has(nameKey)) {
+          // Conflicting types within the table itself: the first occurrence wins
+          if ((retyped.get(nameKey) || existingType) !== typeCell) report('typeChange', 'warning', `实体「${name}」在表中已标为「${retyped.get(nameKey) || existingType}」，忽略类型「${typeCell}」`, { entityName: name });
+          return;
+        }
+        report('typeChange', 'warning', `实体「${name}」的类型将由「${existingType}」改为「${typeCell}」`, { entityName: name });
+        retyped.set(nameKey, typeCell);
+      }
+    });
+    if (!lookupRelation(ctx.schema, relation)) report('unknownRelation', 'warning', `关系「${relation}」不在本体模式中`);
+    existingTriples.add(key);
+    relations.push({ source, relation, target: targetName, provenance, properties: properties(cells) });
+  });
+
+  const skippedRows = new Set(issues.filter(x => x.severity === 'error').map(x => x.row)).size;
+  return {
+    entities,
+    relations,
+    retyped: Array.from(retyped, ([name, type]) => ({ name, type })),
+    issues,
+    rowCount: dataRows.length,
+    skippedRows
+  };
+};
+
+// Merge a plan into the graph: new entities and relations are appended, retyped entities updated in place
+export const applyImportPlan = (
+  entities: RawEntity[],
+  relations: RawRelation[],
+  plan: ImportPlan,
+  aliases: AliasDictionary
+): { entities: RawEntity[], relations: RawRelation[] } => {
+  const retyped = new Map(plan.retyped.map(r => [r.name, r.type]));
+  const updated = entities.map(e => {
+    const type = retyped.get(resolveAlias(e.name, aliases));
+    return type && type !== e.type ? { ...e, type } : e;
+  });
+  return {
+    entities: applyAliasesToEntities([...updated, ...plan.entities], aliases),
+    relations: [...relations, ...applyAliasesToRelations(plan.relations, aliases)]
+  };
+};
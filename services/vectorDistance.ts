@@ -0,0 +1,73 @@
+import { DistanceType, VectorBasis } from '../types';
+
+// Sparse feature vector: ascending dimension indices with their non-zero values
+export interface SparseVector {
+  index: number[];
+  value: number[];
+}
+
+export const DISTANCE_LABEL: Record<DistanceType, string> = {
+  euclidean: '欧氏距离',
+  sqeuclidean: '平方欧氏距离',
+  chebyshev: '切比雪夫距离',
+  manhattan: '绝对值距离',
+  lance: 'Lance 距离',
+  jaccard: 'Jaccard 距离',
+  dice: 'Dice 距离',
+  cosine: '余弦距离',
+  ochiai: 'Ochiai 距离',
+  pearson: 'Pearson / phi 相关距离'
+};
+
+export const VECTOR_BASIS_LABEL: Record<VectorBasis, string> = {
+  cooccurrence: '共现向量 (对象 × 对象)',
+  membership: '隶属矩阵 (对象 × 容器, 0/1)'
+};
+
+export const toSparse = (dense: number[]): SparseVector => {
+  const index: number[] = [];
+  const value: number[] = [];
+  dense.forEach((x, i) => { if (x !== 0) { index.push(i); value.push(x); } });
+  return { index, value };
+};
+
+// 1 − similarity; an all-zero vector is identical to another all-zero one and unrelated to anything else
+const dissimilarity = (numerator: number, denominator: number) => denominator > 0 ? 1 - numerator / denominator : numerator === 0 ? 0 : 1;
+
+// Walks the union of non-zero dimensions; dimensions that are zero in both vectors add nothing to any of the sums.
+// The set measures use their weighted forms (Ruzicka Jaccard, Σmin-based Dice and Ochiai), which reduce to the usual
+// a / (a+b+c), 2a / (2a+b+c) and a / √((a+b)(a+c)) on 0/1 data and stay defined for counts and k-means centroids.
+// On 0/1 data the Pearson correlation is the phi coefficient; it needs `dims` since the zeros count towards the means.
+export const vectorDistance = (a: SparseVector, b: SparseVector, type: DistanceType, dims: number): number => {
+  let i = 0, j = 0;
+  let sumSq = 0, sumAbs = 0, maxAbs = 0, canberra = 0;
+  let sumMin = 0, sumMax = 0, sumX = 0, sumY = 0, dot = 0, sqX = 0, sqY = 0;
+  while (i < a.index.length || j < b.index.length) {
+    let x = 0, y = 0;
+    if (j >= b.index.length || (i < a.index.length && a.index[i] < b.index[j])) x = a.value[i++];
+    else if (i >= a.index.length || b.index[j] < a.index[i]) y = b.value[j++];
+    else { x = a.value[i++]; y = b.value[j++]; }
+    const diff = Math.abs(x - y);
+    sumSq += diff * diff; sumAbs += diff; maxAbs = Math.max(maxAbs, diff);
+    canberra += diff / (Math.abs(x) + Math.abs(y)); // Canberra form; both-zero terms never reach here
+    sumMin += Math.min(x, y); sumMax += Math.max(x, y);
+    sumX += x; sumY += y; dot += x * y; sqX += x * x; sqY += y * y;
+  }
+
+  switch (type) {
+    case 'sqeuclidean': return sumSq;
+    case 'manhattan': return sumAbs;
+    case 'chebyshev': return maxAbs;
+    case 'lance': return canberra;
+    case 'jaccard': return dissimilarity(sumMin, sumMax);
+    case 'dice': return dissimilarity(2 * sumMin, sumX + sumY);
+    case 'cosine': return dissimilarity(dot, Math.sqrt(sqX * sqY));
+    case 'ochiai': return dissimilarity(sumMin, Math.sqrt(sumX * sumY));
+    case 'pearson': {
+      const cov = dot - sumX * sumY / dims;
+      const spread = Math.sqrt((sqX - sumX * sumX / dims) * (sqY - sumY * sumY / dims));
+      return spread > 0 ? 1 - cov / spread : sumSq === 0 ? 0 : 1; // Constant vectors have no correlation to speak of
+    }
+    default: return Math.sqrt(sumSq);
+  }
+};
@@ -4,6 +4,8 @@ import { SimulationNodeDatum, SimulationLinkDatum } from 'd3';
 export interface GraphNode extends SimulationNodeDatum {
   id: string; // The unique identifier (usually the name)
   group: string; // The "Type" (e.g., Disease, Symptom)
+  aliases?: string[]; // Surface forms merged into this node by the alias dictionary
+  properties?: Record<string, string>; // Extra columns carried over from table imports
   
   // Visual overrides for Analysis Mode
   _radius?: number; 
@@ -12,12 +14,14 @@ export interface GraphNode extends SimulationNodeDatum {
   // Analysis Metrics storage
   metrics?: {
     degree: number;
+    strength?: number; // Weighted degree
     betweenness: number;
     closeness: number;
     kCore: number;
-    community: number;
+    community?: number; // Only set by community detection
     clusteringCoeff: number; // Local Clustering Coefficient
     pagerank?: number;
+    eigenvector?: number;
     [key: string]: number | undefined;
   };
   
@@ -49,36 +53,228 @@ export interface GraphLink extends SimulationLinkDatum<GraphNode> {
     isRule?: boolean; // If true, this link represents a mined rule
   };
 
+  provenance?: Provenance; // Carried over from the RawRelation for the details panel
+  properties?: Record<string, string>;
+
   // Explicitly define D3 properties
   source: string | number | GraphNode;
   target: string | number | GraphNode;
 }
 
+// Where a fact came from
+export type ExtractionMethod = 'manual' | 'csv' | 'llm' | 'rule' | 'neo4j' | 'file';
+
+export interface Provenance {
+  method: ExtractionMethod;
+  timestamp: string;     // ISO 8601
+  document?: string;     // File name or title of the source text
+  startOffset?: number;  // Character offsets of the evidence within the document
+  endOffset?: number;
+  row?: number;          // 1-based row of an imported table (header included)
+  evidence?: string;     // Quoted sentence (or CSV row) supporting the fact
+}
+
 export interface RawEntity {
   type: string;
   name: string;
+  sourceChunks?: number[]; // Chunk indices of a long document this entity was extracted from
+  provenance?: Provenance;
+  aliases?: string[]; // Original surface forms normalized to `name`
+  properties?: Record<string, string>; // Extra columns carried over from table imports
 }
 
 export interface RawRelation {
   source: string;
   relation: string;
   target: string;
+  sourceChunks?: number[];
+  provenance?: Provenance;
+  properties?: Record<string, string>;
+}
+
+// Tabular Import
+export type ImportTarget = 'entity' | 'relation' | 'triple'; // triple: one head,head_type,relation,tail,tail_type table
+export type ColumnRole = 'type' | 'name' | 'source' | 'sourceType' | 'relation' | 'target' | 'targetType' | 'property' | 'ignore';
+
+export interface TabularSheet {
+  name: string;
+  rows: string[][]; // Blank rows dropped
+  rowNumbers: number[]; // 1-based row in the source for each entry of rows, as Excel shows it
+}
+
+export interface TabularSource {
+  fileName: string;
+  encoding: string; // Detected text encoding, or 'xlsx'
+  sheets: TabularSheet[];
+}
+
+export type ImportIssueKind = 'missingField' | 'missingEndpoint' | 'unknownType' | 'unknownRelation' | 'duplicate' | 'typeChange';
+
+export interface ImportIssue {
+  row: number; // 1-based row in the source table (header included)
+  kind: ImportIssueKind;
+  severity: 'error' | 'warning'; // Rows with errors are skipped; warnings are imported
+  message: string;
+  entityName?: string;    // Dangling endpoint or retyped entity the issue is about
+  suggestedType?: string; // Type implied by the relation's domain/range, offered as the fix
+}
+
+export interface ImportPlan {
+  entities: RawEntity[];   // New entities, including endpoints created from triples or resolved dangling references
+  relations: RawRelation[];
+  retyped: { name: string, type: string }[]; // Existing entities whose type the table overrides
+  issues: ImportIssue[];
+  rowCount: number;
+  skippedRows: number;
+}
+
+// Variant spelling -> canonical entity name (e.g. 黄耆 -> 黄芪)
+export type AliasDictionary = Record<string, string>;
+
+// Suspected duplicate entity pair with the evidence behind its score
+export interface DuplicateCandidate {
+  a: string;
+  b: string;
+  type: string;
+  score: number;            // Weighted combination of the similarities below, 0..1
+  editSimilarity: number;   // 1 - normalized Levenshtein distance
+  pinyinSimilarity: number; // Same, on toneless pinyin
+  sharedChars: number;      // Jaccard of character sets
+  neighborOverlap: number;  // Jaccard of graph neighborhoods
+}
+
+// Ontology schema: allowed entity types and typed relations
+export interface RelationSchema {
+  name: string;         // Canonical relation name
+  domain: string[];     // Allowed source entity types
+  range: string[];      // Allowed target entity types
+  inverse?: string;     // Relation name meaning the same fact with source/target swapped
+  aliases?: string[];   // Synonyms that should be normalized to `name`
+  symmetric?: boolean;  // Direction carries no meaning (e.g. 配伍)
+}
+
+export interface OntologySchema {
+  entityTypes: string[];
+  relations: RelationSchema[];
+}
+
+export type ValidationIssueKind =
+  | 'unknownEntityType'
+  | 'unknownRelation'
+  | 'nonCanonicalRelation'
+  | 'inverseRelation'
+  | 'domainRange'
+  | 'danglingEndpoint'
+  | 'duplicate';
+
+export type ValidationFix =
+  | { action: 'replace', relation: RawRelation, label: string }
+  | { action: 'remove', label: string };
+
+export interface ValidationIssue {
+  kind: ValidationIssueKind;
+  message: string;
+  entityName?: string;
+  relationIndex?: number; // Index into the relations array the report was built from
+  fix?: ValidationFix;
+}
+
+// Text -> Graph extraction backends
+export type ExtractionProviderId = 'gemini' | 'openai' | 'rule';
+
+export interface ExtractionSettings {
+  provider: ExtractionProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey: string;  // Optional; Gemini falls back to the build-time key
+}
+
+export interface ExtractionResult {
+  entities: RawEntity[];
+  relations: RawRelation[];
+}
+
+export interface ExtractionContext {
+  entities: RawEntity[]; // Current graph entities, used as a dictionary by offline providers
+  signal?: AbortSignal;
+  document?: string; // Title of the source text, recorded in provenance
+  aliases?: AliasDictionary; // Variant spellings are normalized before chunk results are merged
+}
+
+// Long documents are extracted chunk by chunk, then merged
+export interface TextChunk {
+  index: number;
+  start: number; // Character offsets into the full document
+  end: number;
+  text: string;
+}
+
+export interface ChunkingOptions {
+  chunkSize: number; // Characters per chunk
+  overlap: number;   // Characters shared by consecutive chunks
+}
+
+export interface ChunkedExtractionResult extends ExtractionResult {
+  chunkCount: number;
+  completedChunks: number;
+  failedChunks: Array<{ index: number, message: string }>;
+  cancelled: boolean;
+}
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  name: string;
+  defaultModel: string;
+  requiresNetwork: boolean;
+  extract: (text: string, settings: ExtractionSettings, context: ExtractionContext) => Promise<ExtractionResult>;
+}
+
+// Review of LLM-extracted candidates against the current graph
+export type CandidateStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface EntityCandidate {
+  entity: RawEntity;
+  status: CandidateStatus;
+  existingType?: string; // Type of the existing entity with the same name (conflict)
+  accepted: boolean;
+}
+
+export interface RelationCandidate {
+  relation: RawRelation;
+  status: CandidateStatus;
+  existingRelations?: string[]; // Other relations already linking the same pair (conflict)
+  accepted: boolean;
+}
+
+export interface ExtractionReview {
+  entities: EntityCandidate[];
+  relations: RelationCandidate[];
 }
 
 export interface GraphData {
   nodes: GraphNode[];
   links: GraphLink[];
-  metadata?: {
-    density?: number;
-    avgDegree?: number;
-    diameter?: number;
-    avgPathLength?: number;
-    globalClusteringCoeff?: number;
-    transactionCount?: number; // For association analysis
-  };
+  metadata?: NetworkMetadata;
   dendrogram?: DendrogramNode; // For Hierarchical Tree
 }
 
+// Whole-graph statistics, computed on the simple undirected graph (parallel links merged, self-loops dropped)
+export interface NetworkMetadata {
+  nodeCount?: number;
+  edgeCount?: number;
+  density?: number;
+  avgDegree?: number;
+  diameter?: number; // Longest shortest path within any connected component
+  avgPathLength?: number; // Mean over all connected node pairs
+  globalClusteringCoeff?: number; // Transitivity: closed triplets / connected triplets
+  avgClusteringCoeff?: number; // Mean local clustering coefficient
+  componentCount?: number;
+  largestComponentSize?: number;
+  assortativity?: number; // Degree assortativity; undefined when it is not defined (e.g. all degrees equal)
+  degreeDistribution?: { degree: number, count: number }[];
+  transactionCount?: number; // For association analysis
+}
+
 // For Hierarchical Tree
 export interface DendrogramNode {
   name: string;
@@ -87,6 +283,12 @@ export interface DendrogramNode {
   isLeaf?: boolean;
 }
 
+// Dendrogram cut into flat clusters; a cluster's index is its id in clusters.hierarchical
+export interface DendrogramCut {
+  height: number;
+  clusters: string[][]; // Largest first
+}
+
 export interface AssociationRuleResult {
   source: string;
   target: string;
@@ -122,6 +324,21 @@ export interface GroupStyle {
   shape: NodeShape;
 }
 
+// Figure Export (SVG / PNG for publication)
+export interface LegendItem {
+  label: string;
+  color: string;
+  shape?: NodeShape;
+}
+
+export interface FigureExportOptions {
+  format: 'svg' | 'png';
+  dpi: number;                 // PNG only; the on-screen size counts as 96 dpi
+  extent: 'viewport' | 'full'; // What is visible now, or everything drawn regardless of pan/zoom
+  legend: boolean;
+  font?: { name: string, dataUrl: string }; // Uploaded font to embed instead of the bundled one
+}
+
 export type GroupStyleMap = Record<string, GroupStyle>;
 
 // Analysis Configuration
@@ -132,7 +349,13 @@ export enum AnalysisMode {
   SYNDROME_HERB = 'SYNDROME_HERB'          
 }
 
-export type AnalysisMetricType = 'degree' | 'betweenness' | 'closeness' | 'kCore' | 'community' | 'none';
+// Per-node metrics filled on every analysis graph
+export type NodeMetricKey = 'degree' | 'strength' | 'betweenness' | 'closeness' | 'kCore' | 'clusteringCoeff' | 'pagerank' | 'eigenvector';
+
+export type AnalysisMetricType = NodeMetricKey | 'community' | 'none';
+
+// Categorical sources get one color per value (editable in the style tab); other node metrics use a gradient
+export type AnalysisColorSource = 'community' | 'kmeans' | 'hierarchical' | 'group' | 'none' | NodeMetricKey;
 
 export enum AlgorithmType {
   HIERARCHICAL = 'HIERARCHICAL',
@@ -143,26 +366,37 @@ export enum AlgorithmType {
   CENTRALITY = 'CENTRALITY'
 }
 
-export type DistanceType = 'euclidean' | 'chebyshev' | 'manhattan' | 'lance';
-export type ClusterMethod = 'complete' | 'average' | 'centroid';
+export type DistanceType = 'euclidean' | 'sqeuclidean' | 'chebyshev' | 'manhattan' | 'lance' | 'jaccard' | 'dice' | 'cosine' | 'ochiai' | 'pearson';
+// What a clustered object's feature vector is: its co-occurrence counts with the other objects, or its 0/1 membership in each container
+export type VectorBasis = 'cooccurrence' | 'membership';
+export type ClusterMethod = 'single' | 'complete' | 'average' | 'centroid' | 'median' | 'ward';
 
 export interface AnalysisAlgoConfig {
   hierarchical: {
     k: number;
     distanceType: DistanceType;
+    basis: VectorBasis;
     method: ClusterMethod;
     orientation: 'vertical' | 'horizontal';
     containerType: string;
     itemType: string;
+    cutMode: 'k' | 'distance';
+    cutDistance: number; // Merges above this height are undone when cutMode is 'distance'
   };
   kmeans: {
     k: number;
     targetType: string; // The entity type to cluster
+    seed: number; // k-means++ initialization
+    distanceType: DistanceType;
+    basis: VectorBasis; // Membership: 0/1 links to every related entity; co-occurrence: related entities shared with each other target
   };
   community: {
     frontType: string;
     backType: string;
     resolution: number;
+    method: CommunityMethod;
+    network: CommunityNetwork;
+    seed: number; // Node visiting order and Leiden refinement choices
   };
   association: {
     frontType: string;
@@ -178,4 +412,78 @@ export interface AnalysisAlgoConfig {
     containerType: string;
     itemType: string;
   };
-}
\ No newline at end of file
+  centrality: CentralityOptions;
+}
+
+export type CommunityMethod = 'louvain' | 'leiden';
+
+// bipartite: front-back two-mode network scored with Barber's modularity;
+// cooccurrence: back-type items linked by how many front-type entities they share
+export type CommunityNetwork = 'bipartite' | 'cooccurrence';
+
+export interface CommunitySummary {
+  id: number; // Matches metrics.community of its members
+  size: number;
+  members: string[]; // Strongest (highest weighted degree) first
+}
+
+export interface CommunityDetectionResult {
+  method: CommunityMethod;
+  network: CommunityNetwork;
+  resolution: number;
+  modularity: number; // At resolution 1
+  communities: CommunitySummary[];
+}
+
+// How link weights (co-occurrence counts) become path lengths for betweenness and closeness
+// none: every link has length 1; inverse: 1/w; negLog: 1 + ln(max/w), so the strongest link keeps length 1
+export type PathWeighting = 'none' | 'inverse' | 'negLog';
+
+export interface CentralityOptions {
+  weighting: PathWeighting;
+  normalized: boolean; // Betweenness scaled to [0, 1]; closeness (r/Σd)·(r/(n-1)) over the r reachable nodes (Wasserman-Faust) instead of 1/Σd
+}
+
+// One executed analysis, with everything needed to run it again on the same data
+export interface AnalysisRunRecord {
+  id: string;
+  algorithm: AlgorithmType;
+  parameters: Partial<AnalysisAlgoConfig>; // Only the config sections the algorithm reads
+  seed?: number; // Stochastic algorithms only
+  datasetHash: string; // Of entities, relations and aliases at run time
+  timestamp: number;
+  summary: string;
+}
+
+// Analysis Report (methods/results appendix)
+export type ReportSectionId = 'dataset' | 'network' | 'centrality' | 'community' | 'association' | 'hierarchical';
+// Project Persistence
+export type NodePositions = Record<string, { x: number; y: number }>;
+
+export interface ProjectState {
+  entities: RawEntity[];
+  relations: RawRelation[];
+  groupStyles: GroupStyleMap;
+  analysisStyles: Record<string, string>;
+  graphConfig: GraphConfig;
+  algoConfig: AnalysisAlgoConfig;
+  aliases: AliasDictionary;
+  ontology: OntologySchema;
+  positions: NodePositions;
+  rdfNamespace: string; // Base IRI for Turtle / JSON-LD exports
+  runLog: AnalysisRunRecord[];
+}
+
+export interface ProjectFile {
+  format: 'tcmkg';
+  version: number; // Bumped whenever ProjectState changes shape; see services/projectStore migrations
+  name: string;
+  savedAt: number;
+  project: ProjectState;
+}
+
+export interface WorkspaceMeta {
+  id: string;
+  name: string;
+  updatedAt: number;
+}